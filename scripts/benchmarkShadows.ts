@@ -0,0 +1,56 @@
+/**
+ * Compares the time taken to compute sun shadows for every scene, using
+ * `castSunRay` directly and using a `ShadowMap`. Usage:
+ *
+ *     yarn benchmark:shadows [seed] [repeats]
+ */
+import { Pt3 } from "../src/geometry";
+import { Random } from "../src/random";
+import { scenes } from "../src/scenes";
+import { castSunRay, ShadowMap } from "../src/shadows";
+
+const seed = parseInt(process.argv[2] || "1", 10);
+const repeats = parseInt(process.argv[3] || "5", 10);
+
+/**
+ * `time` returns the fastest of several runs of `run`, in milliseconds.
+ */
+function time(run: () => number): { ms: number; lit: number } {
+  let best = Infinity;
+  let lit = 0;
+  for (let i = 0; i < repeats; i++) {
+    const start = process.hrtime();
+    lit = run();
+    const [s, ns] = process.hrtime(start);
+    best = Math.min(best, s * 1e3 + ns / 1e6);
+  }
+  return { ms: best, lit };
+}
+
+for (const sceneName of Object.keys(scenes) as (keyof typeof scenes)[]) {
+  const { cubes } = scenes[sceneName](new Random(seed));
+  // The same rays that `shadeScene` casts: from above and beside each cube.
+  const starts: Pt3[] = [];
+  for (const cube of cubes) {
+    starts.push(cube.shift(0, 1, 0), cube.shift(-1, 0, 0), cube.shift(0, 0, 1));
+  }
+
+  const marched = time(() => starts.filter(s => !castSunRay(cubes, s)).length);
+  const mapped = time(() => {
+    const shadows = new ShadowMap(cubes);
+    return starts.filter(s => shadows.shadow(s) === 0).length;
+  });
+  if (marched.lit !== mapped.lit) {
+    throw new Error(
+      `${sceneName}: ShadowMap lit ${mapped.lit} faces, not ${marched.lit}`,
+    );
+  }
+
+  console.log(
+    `${sceneName}: ${cubes.size} cubes, ${starts.length} rays, ` +
+      `castSunRay ${marched.ms.toFixed(1)}ms, ShadowMap ${mapped.ms.toFixed(
+        1,
+      )}ms ` +
+      `(${(marched.ms / mapped.ms).toFixed(1)}x faster)`,
+  );
+}
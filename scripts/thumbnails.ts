@@ -0,0 +1,41 @@
+/**
+ * Renders a PNG thumbnail for every scene with every surface palette, without
+ * a browser. Usage:
+ *
+ *     yarn thumbnails [outDir] [seed] [size]
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { fitScene } from "../src/camera";
+import { surfaceColors } from "../src/color";
+import { encodePNG } from "../src/png";
+import { rasterizeDisplayList } from "../src/raster";
+import { Random } from "../src/random";
+import { scenes } from "../src/scenes";
+import { renderScene } from "../src/shading";
+
+const outDir = process.argv[2] || "thumbnails";
+const seed = parseInt(process.argv[3] || "1", 10);
+const size = parseInt(process.argv[4] || "400", 10);
+
+fs.mkdirSync(outDir, { recursive: true });
+for (const sceneName of Object.keys(scenes) as (keyof typeof scenes)[]) {
+  const { cubes, materials, blocks } = scenes[sceneName](new Random(seed));
+  for (const surfaceName of Object.keys(
+    surfaceColors,
+  ) as (keyof typeof surfaceColors)[]) {
+    const list = renderScene(cubes, surfaceColors[surfaceName], seed, {
+      viewport: fitScene(cubes, 0, size, size),
+      materials,
+      blocks,
+    });
+    const image = rasterizeDisplayList(list, {
+      width: size,
+      height: size,
+      scale: 1,
+    });
+    const file = path.join(outDir, `${sceneName}-${surfaceName}-${seed}.png`);
+    fs.writeFileSync(file, encodePNG(image));
+    console.log(file);
+  }
+}
@@ -1,674 +1,917 @@
 import React from "react";
 import "./App.css";
-
-type RGB = readonly [number, number, number];
-
-function interpolateRGB(palette: RGB[], t: number): RGB {
-  if (palette.length === 0) {
-    throw new Error("cannot interpolateRGB([]) on empty palette");
-  }
-  t *= palette.length;
-  if (t <= 0) {
-    return palette[0];
-  }
-  if (t >= palette.length - 1) {
-    return palette[palette.length - 1];
-  }
-  const index = Math.floor(t);
-
-  const amount = t - index;
-  return [
-    palette[index][0] * (1 - amount) + palette[index + 1][0] * amount,
-    palette[index][1] * (1 - amount) + palette[index + 1][1] * amount,
-    palette[index][2] * (1 - amount) + palette[index + 1][2] * amount,
-  ];
-}
-
-function randChoose<T>(options: Iterable<T>): T {
-  const list = [...options];
-  return list[Math.floor(Math.random() * list.length)];
-}
-
-function randBetween(lo: number, hi: number): number {
-  const range = hi - lo + 1;
-  return Math.floor(Math.random() * range) + lo;
-}
+import { BlockName, blockNames } from "./blocks";
+import { fitScene, Rotation } from "./camera";
+import { paintDisplayList } from "./canvas";
+import { builtinThemes, fromHex, RGB, themeSurface, toHex } from "./color";
+import { clockTime, renderDay, sunAt, tintAt } from "./dayCycle";
+import { DisplayList, Rect } from "./displayList";
+import {
+  applyEdit,
+  Brush,
+  highlightMesh,
+  pickFace,
+  Target,
+  Tool,
+} from "./editing";
+import { P, pt, Pt3, triangleCorners, Viewport } from "./geometry";
+import { encodeGIF } from "./gif";
+import {
+  MaterialName,
+  materials as materialList,
+  materialSurface,
+} from "./materials";
+import { Mesh } from "./mesh";
+import { DEFAULT_OUTLINE, OutlineStyle } from "./outlines";
+import { encodePNG } from "./png";
+import { Random } from "./random";
+import { RGBAImage } from "./raster";
+// eslint-disable-next-line import/no-webpack-loader-syntax
+import RenderWorker from "worker-loader!./render.worker";
+import { RenderClient } from "./renderClient";
+import { packScene } from "./renderJob";
+import { parseSceneFile, serializeScene } from "./sceneFile";
+import { DEFAULT_TERRAIN, scenes, terrain, TerrainSettings } from "./scenes";
+import { DEFAULT_SUN, Sun } from "./shadows";
+import { DEFAULT_SKY, skyImage, tintImage } from "./sky";
+import { displayListToSVG } from "./svg";
+import { ThemeEditor } from "./ThemeEditor";
+import {
+  addTheme,
+  findTheme,
+  isCustomTheme,
+  loadThemes,
+  parseThemeFile,
+  saveThemes,
+  serializeTheme,
+  themeName,
+} from "./themes";
+import { encodeVox, parseVox } from "./vox";
+import { encodeZip } from "./zip";
 
 /**
- * P is a 2D point with readonly x and y fields.
- * By convention, positive x is to the right, and positive y is down.
+ * `downloadFile` asks the browser to save `contents` as a file called `name`.
  */
-class P {
-  constructor(public readonly x: number, public readonly y: number) {}
-
-  public args(): [number, number] {
-    return [this.x, this.y];
-  }
-
-  public shift(dx: number, dy: number): P {
-    return new P(this.x + dx, this.y + dy);
-  }
+function downloadFile(name: string, contents: Blob) {
+  const url = URL.createObjectURL(contents);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Some browsers only start reading the file once `click` has returned, so
+  // it mustn't be revoked straight away.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 /**
- * `pt` is a helper for creating `P` objects. It just invokes `P`'s constructor.
- * @param x
- * @param y
+ * `randomSeed` picks a fresh seed for a new scene.
+ * This is the only place that should use `Math.random()`.
  */
-function pt(x: number, y: number): P {
-  return new P(x, y);
+function randomSeed(): number {
+  return Math.floor(Math.random() * 1000000);
 }
 
 /**
- * A `TriPt` is a corner in the triangle-grid.
- * It's described with two coordinates, `tx` and `ty`.
- * By convention, `ty` is up and `tx` is up-right.
- *
- * `TriPt` values can be correctly compared with `===` for equality.
- * To accomplish this, all `TriPt` objects are stored in a global private cache.
- *
- * The `pt()` method converts the `TriPt` to the corresponding `P`.
+ * The canvas is drawn at `CANVAS_SIZE` pixels square, then shrunk to fit by CSS.
  */
-class TriPt {
-  private static cache: Record<string, TriPt> = {};
-  constructor(public readonly tx: number, public readonly ty: number) {
-    // ty is vertical; tx is up-right
-    const k = `${tx};${ty}`;
-    if (k in TriPt.cache) {
-      return TriPt.cache[k];
-    }
-    TriPt.cache[k] = this;
-  }
-
-  public pt(): P {
-    const scale = 25;
-    return pt(
-      400 + scale * Math.cos(Math.PI / 6) * this.tx,
-      400 - scale * this.ty - scale * Math.sin(Math.PI / 6) * this.tx,
-    );
-  }
-  public shift(dx: number, dy: number): TriPt {
-    return new TriPt(this.tx + dx, this.ty + dy);
-  }
-}
+const CANVAS_SIZE = 1600;
 
 /**
- * A `Pt3` is an (integer) point in 3D space.
- * Points can be correctly compared with `===`.
- *
- * `tri()` projects the `Pt3` into the corresponding `TriPt` (at its center).
- * `depth()` returns a sortable "depth" value for the cube (valid at the point only).
+ * Animations are exported at `EXPORT_SIZE` pixels square.
  */
-class Pt3 {
-  private static cache: Record<string, Pt3> = {};
-  constructor(
-    public readonly cx: number,
-    public readonly cy: number,
-    public readonly cz: number,
-  ) {
-    const k = `${cx};${cy};${cz}`;
-    if (k in Pt3.cache) {
-      return Pt3.cache[k];
-    }
-    Pt3.cache[k] = this;
-  }
-
-  public tri(): TriPt {
-    return new TriPt(this.cx + this.cz, this.cy - this.cz);
-  }
-  /**
-   * Returns the "depth" of the point in the screen (if it were to be projected).
-   * I was lazy on the math, so it's only valid near the origin and for cubes
-   * that project to the same point; use with caution.
-   */
-  public depth(): number {
-    return -this.cy - this.cz * 1.01 + this.cx * 1.01;
-  }
-  public shift(dx: number, dy: number, dz: number): Pt3 {
-    return new Pt3(this.cx + dx, this.cy + dy, this.cz + dz);
-  }
-}
+const EXPORT_SIZE = 800;
 
 /**
- * `pt3(...)` is an abbreviation for `new Pt3(...)`.
+ * `DAY_LENGTH` is how many milliseconds a day lasts while playing, and
+ * `EXPORTED_DAY_LENGTH` how long it lasts in an exported animation.
  */
-function pt3(cx: number, cy: number, cz: number): Pt3 {
-  return new Pt3(cx, cy, cz);
-}
+const DAY_LENGTH = 20000;
+const EXPORTED_DAY_LENGTH = 6000;
 
 /**
- * `rgb` converts an RGB triplet into a usable string.
- * The inputs should be in the range [0, 1]; values outside this range will be clamped.
+ * `canvasPoint` converts a mouse position into canvas pixels.
  */
-function rgb(r: number, g: number, b: number): string {
-  const clamp = (x: number) => Math.floor(Math.max(0, Math.min(255, x * 256)));
-  return `rgb(${clamp(r)}, ${clamp(g)}, ${clamp(b)})`;
+function canvasPoint(
+  canvas: HTMLCanvasElement,
+  e: { clientX: number; clientY: number },
+): P {
+  const rect = canvas.getBoundingClientRect();
+  const scale = canvas.width / rect.width;
+  return pt((e.clientX - rect.left) * scale, (e.clientY - rect.top) * scale);
 }
 
-/**
- * `fillUpRight(ctx, c, color)` fills a right-facing triangle whose lower-left
- * corner is located at `c` (specifically, the point that `c` projects to).
- */
-function fillUpRight(
-  ctx: CanvasRenderingContext2D,
-  c: TriPt,
-  color: readonly [number, number, number],
-) {
-  ctx.fillStyle = rgb(...color);
-  ctx.beginPath();
-  ctx.moveTo(...c.pt().args());
-  ctx.lineTo(...c.shift(0, 1).pt().args());
-  ctx.lineTo(...c.shift(1, 0).pt().args());
-  ctx.closePath();
-  ctx.fill();
-}
-
-function triangleCorner1(t: TriPt, side: "left" | "right"): P {
-  if (side === "left") {
-    return t.shift(-1, 1).pt();
-  } else {
-    return t.shift(0, 1).pt();
-  }
-}
-function triangleCorner2(t: TriPt, side: "left" | "right"): P {
-  if (side === "left") {
-    return t.shift(0, 1).pt();
-  } else {
-    return t.shift(1, 0).pt();
-  }
-}
-
-function triangleCenter(t: TriPt, side: "left" | "right"): P {
-  if (side === "left") {
-    const c1 = t.pt();
-    const c2 = t.shift(-1, 1).pt();
-    const c3 = t.shift(0, 1).pt();
-    return pt((c1.x + c2.x + c3.x) / 3, (c1.y + c2.y + c3.y) / 3);
-  } else {
-    const c1 = t.pt();
-    const c2 = t.shift(0, 1).pt();
-    const c3 = t.shift(1, 0).pt();
-    return pt((c1.x + c2.x + c3.x) / 3, (c1.y + c2.y + c3.y) / 3);
-  }
-}
-
-/**
- * `fillUpLeft(ctx, c, color)` fills a left-facing triangle whose lower-right
- * corner is located at `c` (specifically, the point that `c` projects to).
- */
-function fillUpLeft(
-  ctx: CanvasRenderingContext2D,
-  c: TriPt,
-  color: readonly [number, number, number],
-) {
-  ctx.fillStyle = rgb(...color);
-  ctx.beginPath();
-  ctx.moveTo(...c.pt().args());
-  ctx.lineTo(...c.shift(-1, 1).pt().args());
-  ctx.lineTo(...c.shift(0, 1).pt().args());
-  ctx.closePath();
-  ctx.fill();
-}
-
-/**
- * A `Mesh` is a mapping from triangles to any value.
- * Each triangle is either left- or right-facing and identified by its
- * bottom corner.
- */
-class Mesh<T> {
-  right = new Map<TriPt, T>();
-  left = new Map<TriPt, T>();
+function App() {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null as any);
+  const overlayRef = React.useRef<HTMLCanvasElement>(null as any);
 
-  /**
-   * `set` replaces the value stored at the given triangle.
-   */
-  set(t: TriPt, side: "left" | "right", color: T): void {
-    this[side].set(t, color);
-  }
-  /**
-   * `get` returns the value stored at the given triangle, or `null`
-   * if no value has been stored there yet.
-   */
-  get(t: TriPt, side: "left" | "right"): T | null {
-    if (!this[side].has(t)) {
-      return null;
-    }
-    return this[side].get(t)!;
-  }
-  /**
-   * `update` combines `get` and `set` by transforming the point by the
-   * provided `change` function.
-   * The function receives `null` if the triangle has not been given a
-   * value yet.
-   */
-  update(t: TriPt, side: "left" | "right", change: (old: T | null) => T): void {
-    this[side].set(t, change(this[side].has(t) ? this[side].get(t)! : null));
-  }
+  const [sceneName, setSceneName] = React.useState<keyof typeof scenes>(
+    "canyon_city",
+  );
+  const [seed, setSeed] = React.useState(randomSeed);
+  const [terrainSettings, setTerrainSettings] = React.useState<TerrainSettings>(
+    DEFAULT_TERRAIN,
+  );
+  const [generated] = React.useState(() => scenes[sceneName](new Random(seed)));
+  const [cubes, setCubes] = React.useState(generated.cubes);
+  const [materials, setMaterials] = React.useState(generated.materials);
+  // Cubes can have their own colors, for example when they come from a
+  // `.vox` file; all others are colored by the palette.
+  const [colors, setColors] = React.useState(() => new Map<Pt3, RGB>());
+  // Cubes in `blocks` are shaped like slopes or slabs instead.
+  const [blocks, setBlocks] = React.useState(
+    () => generated.blocks || new Map<Pt3, BlockName>(),
+  );
+  // The palette is the name of one of the `builtinThemes`, or of one of the
+  // custom `themes` made in the palette editor.
+  const [palette, setPalette] = React.useState("desert_stone");
+  const [themes, setThemes] = React.useState(() =>
+    loadThemes(window.localStorage),
+  );
+  const theme = findTheme(themes, palette) || builtinThemes.desert_stone;
+  const surface = React.useMemo(() => themeSurface(theme), [theme]);
+  const [mergeSVG, setMergeSVG] = React.useState(true);
+  const [outline, setOutline] = React.useState<OutlineStyle | null>(null);
+  const [tool, setTool] = React.useState<Tool>("add");
+  const [paint, setPaint] = React.useState<MaterialName>("ground");
+  const [shape, setShape] = React.useState<BlockName | "cube">("cube");
+  const [brush, setBrush] = React.useState<Brush>("single");
+  const [hover, setHover] = React.useState<Target | null>(null);
+  const [rotation, setRotation] = React.useState<Rotation>(0);
+  const [sun, setSun] = React.useState<Sun>(DEFAULT_SUN);
+  // When `time` is set, the light follows the time of day instead of `sun`,
+  // keeping only its softness.
+  const [time, setTime] = React.useState<number | null>(null);
+  const [playing, setPlaying] = React.useState(false);
+  const [frameCount, setFrameCount] = React.useState(24);
+  const light = React.useMemo(
+    () => (time === null ? sun : sunAt(time, sun.softness)),
+    [time, sun],
+  );
+  const tint = React.useMemo(() => (time === null ? undefined : tintAt(time)), [
+    time,
+  ]);
+  const sky = React.useMemo(
+    () => skyImage(theme.sky || DEFAULT_SKY, CANVAS_SIZE, CANVAS_SIZE),
+    [theme.sky],
+  );
+  const backdrop = React.useMemo(() => (tint ? tintImage(sky, tint) : sky), [
+    sky,
+    tint,
+  ]);
+  const [viewport, setViewport] = React.useState(
+    () => new Viewport(50, CANVAS_SIZE / 2, CANVAS_SIZE / 2),
+  );
+  // While the mouse is held down, `drag` tracks where it was last seen, and
+  // whether it has moved far enough to count as panning rather than a click.
+  const drag = React.useRef<{ last: P; distance: number } | null>(null);
+  const [fileError, setFileError] = React.useState<string | null>(null);
+
+  // Picking a scene or seed, or changing the terrain settings, regenerates
+  // the cubes, discarding any edits.
+  const generate = (
+    name: keyof typeof scenes,
+    newSeed: number,
+    settings = terrainSettings,
+  ) => {
+    setSceneName(name);
+    setSeed(newSeed);
+    setTerrainSettings(settings);
+    const scene =
+      name === "terrain"
+        ? terrain(new Random(newSeed), settings)
+        : scenes[name](new Random(newSeed));
+    setCubes(scene.cubes);
+    setMaterials(scene.materials);
+    setColors(new Map());
+    setBlocks(scene.blocks || new Map());
+  };
+
+  React.useEffect(() => saveThemes(window.localStorage, themes), [themes]);
+
+  // Scenes are rendered in a worker, so the page doesn't freeze while they
+  // are shaded. `frame` is the latest finished render, with the part of the
+  // canvas it changed (see `RenderResult`) and the sky it goes in front of,
+  // `pick` is its mesh, `progress` says how far the render in progress has
+  // got, and `renderError` says why the last render failed, if it did.
+  const [renderClient] = React.useState(
+    () => new RenderClient(() => new RenderWorker()),
+  );
+  React.useEffect(() => () => renderClient.dispose(), [renderClient]);
+  const [frame, setFrame] = React.useState<{
+    list: DisplayList;
+    dirty?: Rect | null;
+    sky: RGBAImage;
+  }>(() => ({ list: [], sky: backdrop }));
+  const [pick, setPick] = React.useState(() => new Mesh<Target>());
+  const [progress, setProgress] = React.useState<number | null>(null);
+  const [renderError, setRenderError] = React.useState<string | null>(null);
+  const rendering = React.useRef(false);
+  const renderScene = React.useMemo(
+    () =>
+      packScene(cubes, {
+        materials,
+        colors,
+        blocks,
+        theme,
+        seed,
+        rotation,
+        sun: light,
+        tint,
+      }),
+    [cubes, materials, colors, blocks, theme, seed, rotation, light, tint],
+  );
 
-  /**
-   * `map` copies the `Mesh`, transforming the value stored in each triangle.
-   */
-  map<R>(func: (value: T) => R): Mesh<R> {
-    const copy = new Mesh<R>();
-    for (const [t, v] of this.left) {
-      copy.left.set(t, func(v));
-    }
-    for (const [t, v] of this.right) {
-      copy.right.set(t, func(v));
+  React.useEffect(() => {
+    rendering.current = true;
+    setProgress(0);
+    renderClient
+      .render(renderScene, viewport, setProgress, outline || undefined)
+      .then(
+        result => {
+          // Renders that were cancelled by a newer one give no result.
+          if (!result) {
+            return;
+          }
+          rendering.current = false;
+          setProgress(null);
+          setRenderError(null);
+          setFrame({ list: result.list, dirty: result.dirty, sky: backdrop });
+          if (result.pick) {
+            setPick(result.pick);
+          }
+        },
+        error => {
+          rendering.current = false;
+          setProgress(null);
+          setRenderError(error.message);
+        },
+      );
+  }, [renderClient, renderScene, viewport, outline, backdrop]);
+
+  // A new sky means painting the whole canvas again, even if the scene in
+  // front of it didn't change.
+  const paintedSky = React.useRef<RGBAImage | null>(null);
+  React.useLayoutEffect(() => {
+    const full = paintedSky.current !== frame.sky;
+    if (full || frame.dirty !== null) {
+      const ctx = canvasRef.current.getContext("2d")!;
+      paintDisplayList(
+        ctx,
+        frame.list,
+        frame.sky,
+        full ? undefined : frame.dirty || undefined,
+      );
+      paintedSky.current = frame.sky;
     }
-    return copy;
-  }
-}
-
-/**
- * `drawMesh` assumes the provided `mesh` contains colors.
- */
-function drawMesh(
-  ctx: CanvasRenderingContext2D,
-  mesh: Mesh<{ depth: number; color: RGB; style: "grass" | "stone" }>,
-) {
-  const triangles = [
-    ...[...mesh.left].map(([t, item]) => ({
-      ...item,
-      t,
-      effect: false,
-      side: "left" as const,
-    })),
-    ...[...mesh.left].map(([t, item]) => ({
-      ...item,
-      t,
-      effect: true,
-      depth: item.depth - 0.5,
-      side: "left" as const,
-    })),
-    ...[...mesh.right].map(([t, item]) => ({
-      ...item,
-      effect: false,
-      t,
-      side: "right" as const,
-    })),
-    ...[...mesh.right].map(([t, item]) => ({
-      ...item,
-      effect: true,
-      depth: item.depth - 0.5,
-      t,
-      side: "right" as const,
-    })),
-  ];
-  triangles.sort((a, b) => {
-    // return Math.random() - 0.5;
-    return b.depth - a.depth;
-  });
+  }, [frame]);
 
-  triangles.forEach(item => {
-    if (!item.effect) {
-      if (item.side === "left") {
-        fillUpLeft(ctx, item.t, item.color);
-      } else {
-        fillUpRight(ctx, item.t, item.color);
-      }
+  React.useLayoutEffect(() => {
+    const ctx = overlayRef.current.getContext("2d")!;
+    ctx.clearRect(0, 0, overlayRef.current.width, overlayRef.current.height);
+    if (!hover) {
+      return;
     }
-    if (item.effect && item.style === "grass") {
-      const c1 = triangleCorner1(item.t, item.side);
-      const c2 = triangleCorner2(item.t, item.side);
-      const c3 = item.t.pt();
-
-      const onEdge1 = (r: number) => {
-        return pt(c1.x * r + c2.x * (1 - r), c1.y * r + c2.y * (1 - r));
-      };
-      const onEdge2 = (r: number) => {
-        if (item.side === "right") {
-          return pt(c2.x * r + c3.x * (1 - r), c2.y * r + c3.y * (1 - r));
-        } else {
-          return pt(c3.x * r + c1.x * (1 - r), c3.y * r + c1.y * (1 - r));
-        }
-      };
-
-      ctx.fillStyle = rgb(...item.color);
-      for (let i = 0; i < 12; i++) {
-        const onEdge = i % 2 === 0 ? onEdge1 : onEdge2;
-        const r = Math.random() * 0.8 + 0.1;
-        const edge1 = onEdge(r - 0.1);
-        const edge2 = onEdge(r + 0.1);
-        const edgeMid = onEdge(r);
-        const out = pt(-(edge2.y - edge1.y), edge2.x - edge1.x);
-        const edgeOut = pt(edgeMid.x + out.x * 0.5, edgeMid.y + out.y * 0.5);
+    ctx.fillStyle =
+      tool === "add" ? "rgba(255, 255, 255, 0.4)" : "rgba(255, 0, 0, 0.4)";
+    const highlight = highlightMesh(hover, brush, rotation);
+    for (const side of ["left", "right"] as const) {
+      for (const t of highlight[side].keys()) {
+        const [first, ...rest] = triangleCorners(t, side).map(c =>
+          c.pt(viewport),
+        );
         ctx.beginPath();
-        ctx.moveTo(...edge1.shift(-out.x * 0.2, -out.y * 0.2).args());
-        ctx.lineTo(...edge2.shift(-out.x * 0.2, -out.y * 0.2).args());
-        ctx.lineTo(...edgeOut.args());
+        ctx.moveTo(...first.args());
+        for (const corner of rest) {
+          ctx.lineTo(...corner.args());
+        }
         ctx.closePath();
         ctx.fill();
       }
     }
-  });
-}
+  }, [hover, tool, brush, rotation, viewport]);
 
-/**
- * `cubeFace` stores values for both triangles in one face of a unit cube.
- * @param mesh
- */
-function cubeFace<T>(
-  mesh: Mesh<T>,
-  c: TriPt,
-  face: "up" | "left" | "right",
-  change: (old: T | null) => T,
-) {
-  switch (face) {
-    case "up":
-      mesh.update(c, "right", change);
-      mesh.update(c, "left", change);
+  // While playing, time moves on by however long each frame took to draw,
+  // waiting for each to finish so that renders aren't all cancelled.
+  React.useEffect(() => {
+    if (!playing) {
       return;
-    case "right":
-      mesh.update(c.shift(1, -1), "left", change);
-      mesh.update(c.shift(0, -1), "right", change);
-      return;
-    case "left":
-      mesh.update(c.shift(0, -1), "left", change);
-      mesh.update(c.shift(-1, 0), "right", change);
-      return;
-  }
-}
-
-/**
- * `perturbColor` returns the input color with some random variation.
- */
-function perturbColor(color: RGB, strength: number): RGB {
-  return [
-    color[0] + (Math.random() * 2 - 1) * strength,
-    color[1] + (Math.random() * 2 - 1) * strength,
-    color[2] + (Math.random() * 2 - 1) * strength,
-  ];
-}
-
-/**
- * `surfaceColor` describes the colors for all 3 visible sides of each cube.
- * Each receives as a parameter a "lightness" score.
- */
-const surfaceColors = {
-  desert_stone: {
-    top: (v: number) =>
-      interpolateRGB(
-        [
-          [176 / 255, 112 / 255, 0],
-          [243 / 255, 166 / 255, 0],
-          [254 / 255, 175 / 255, 0],
-          [251 / 255, 225 / 255, 38 / 255],
-        ],
-        v,
-      ),
-    right: (v: number) =>
-      interpolateRGB(
-        [
-          [0.55, 0.55, 0.6],
-          [0.7, 0.7, 0.8],
-          [0.8, 0.8, 0.85],
-        ],
-        v,
-      ),
-    left: (v: number) =>
-      interpolateRGB(
-        [
-          [0.4, 0.3, 0.3],
-          [0.5, 0.45, 0.3],
-        ],
-        v,
-      ),
-  },
-  blossoms: {
-    top: (v: number) =>
-      interpolateRGB(
-        [
-          [100 / 255, 30 / 255 / 3, 76 / 255],
-          [183 / 255, 55 / 255, 146 / 255],
-          [190 / 255, 150 / 255, 220 / 255],
-        ],
-        v,
-      ),
-    right: (v: number) =>
-      interpolateRGB(
-        [
-          [0.55, 0.55, 0.6],
-          [0.7, 0.7, 0.8],
-          [0.8, 0.8, 0.85],
-        ],
-        v,
-      ),
-    left: (v: number) =>
-      interpolateRGB(
-        [
-          [0.6, 0.5, 0.65],
-          [0.9, 0.7, 0.85],
-          [0.95, 0.8, 0.9],
-        ],
-        v,
-      ),
-  },
-};
-
-type Triplet<T> = {
-  top: T;
-  right: T;
-  left: T;
-};
-
-/**
- * `cubeDepth` stamps a cube onto the `Mesh` and stores depth information.
- * The cube will not be stamped in front of nearer values.
- * @param mesh
- * @param p
- * @param surface
- */
-function cubeDepth<Style>(
-  mesh: Mesh<{ depth: number; color: RGB; style: Style }>,
-  p: Pt3,
-  surface: Triplet<{ color: RGB; style: Style }>,
-): void {
-  cubeFace(mesh, p.tri(), "up", old => {
-    if (!old || old.depth > p.depth()) {
-      return { depth: p.depth(), ...surface.top };
-    }
-    return old;
-  });
-  cubeFace(mesh, p.tri(), "right", old => {
-    if (!old || old.depth > p.depth()) {
-      return { depth: p.depth(), ...surface.right };
-    }
-    return old;
-  });
-  cubeFace(mesh, p.tri(), "left", old => {
-    if (!old || old.depth > p.depth()) {
-      return { depth: p.depth(), ...surface.left };
     }
-    return old;
-  });
-}
-
-/**
- * `castRay` checks whether a sun-ray (starting from the center of a cube) intersects with any cube in a set.
- * @param from
- */
-function castSunRay(
-  cubes: Set<Pt3>,
-  from: Pt3,
-  maxDistance = 20,
-  stepSize = 0.25,
-): boolean {
-  for (let t = 0; t < maxDistance; t += stepSize) {
-    const q = pt3(
-      Math.round(from.cx + t),
-      Math.round(from.cy + t * 0.95),
-      Math.round(from.cz),
-    );
-    if (cubes.has(q)) {
-      return true;
-    }
-  }
-  return false;
-}
-
-const scenes = {
-  canyon_city: () => {
-    const cubes = new Set<Pt3>();
-
-    for (let x = -30; x <= 30; x++) {
-      for (let z = -30; z <= 30; z++) {
-        cubes.add(pt3(x, 0, z));
+    let frame = 0;
+    let last = performance.now();
+    const step = (now: number) => {
+      if (!rendering.current) {
+        setTime(t => ((t === null ? 0.25 : t) + (now - last) / DAY_LENGTH) % 1);
+        last = now;
       }
-    }
-    for (let i = 0; i < 100; i++) {
-      const cx = randBetween(-30, 30);
-      const cz = randBetween(-30, 30);
-      const size = randChoose([1, 1, 1, 1, 1, 3]);
-      for (let x = cx - size; x <= cx + size; x++) {
-        for (let z = cz - size; z <= cz + size; z++) {
-          for (let y = 1; y <= 2 * size + 1; y++) {
-            if ((x === cx || z === cz) && y < size + 1) {
-              continue;
-            }
-            cubes.add(pt3(x, y, z));
-          }
-        }
-      }
-    }
-
-    for (let x = -4; x <= 4; x += 8) {
-      for (let z = -40; z <= 40; z++) {
-        for (let y = -20; y <= 0; y++) {
-          cubes.add(pt3(x, y, z));
-        }
-      }
-    }
-
-    for (let x = -3; x <= 3; x++) {
-      for (let z = -40; z <= 40; z++) {
-        for (let y = -20; y <= 20; y++) {
-          cubes.delete(pt3(x, y, z));
-        }
-      }
-    }
-
-    return cubes;
-  },
-
-  island: () => {
-    const cubes = new Set<Pt3>();
-    for (let x = -40; x <= 40; x++) {
-      for (let z = -40; z <= 40; z++) {
-        cubes.add(pt3(x, -4, z));
-      }
-    }
-    for (let x = -6; x <= 6; x++) {
-      for (let z = -6; z <= 6; z++) {
-        for (let y = -6; y <= 0; y++) {
-          cubes.add(pt3(x, y, z));
-        }
-      }
-    }
-    for (let i = 0; i < 20; i++) {
-      const x = randBetween(-6, 6);
-      const z = randBetween(-6, 6);
-      const r = randBetween(1, 6);
-      for (let y = 1; y <= r; y++) {
-        cubes.add(pt3(x, y, z));
-      }
-    }
-    return cubes;
-  },
-};
-
-type Gradient = (v: number) => RGB;
-
-function drawScene(
-  ctx: CanvasRenderingContext2D,
-  cubes: Set<Pt3>,
-  surface: { top: Gradient; right: Gradient; left: Gradient },
-) {
-  const depthMesh = new Mesh<{
-    color: readonly [number, number, number];
-    depth: number;
-    style: "grass" | "stone";
-  }>();
-
-  cubes.forEach(cube => {
-    cubeDepth(depthMesh, cube, {
-      top: {
-        style: "grass",
-        color: perturbColor(
-          surface.top(
-            (castSunRay(cubes, cube.shift(0, 1, 0)) ? 0 : 0.3) +
-              cube.cy / 20 +
-              0.08,
-          ),
-          0.05,
-        ),
-      },
-      right: {
-        style: "stone",
-        color: surface.right(
-          (castSunRay(cubes, cube.shift(0, 0, 1)) ? 0 : 0.3) +
-            cube.cz / 20 +
-            0.25,
-        ),
-      },
-      left: {
-        style: "stone",
-        color: surface.left(cube.cx / 30),
-      },
+      frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  // `exportDay` renders a whole day, starting from the current time, as an
+  // animated GIF or as a zip of numbered PNG frames.
+  const exportDay = (format: "gif" | "png") => {
+    const images = renderDay(cubes, surface, seed, {
+      frames: frameCount,
+      start: time === null ? 0 : time,
+      width: EXPORT_SIZE,
+      height: EXPORT_SIZE,
+      scale: EXPORT_SIZE / CANVAS_SIZE,
+      viewport,
+      outline: outline || undefined,
+      rotation,
+      sun,
+      materials,
+      colors,
+      blocks,
+      sky: theme.sky,
+      fog: theme.fog,
     });
-  });
-
-  drawMesh(ctx, depthMesh);
-}
-
-function App() {
-  const canvasRef = React.useRef<HTMLCanvasElement>(null as any);
-
-  const [cubes, setCubes] = React.useState(() => scenes.canyon_city());
-  const [surface, setSurface] = React.useState(surfaceColors.desert_stone);
-
-  React.useLayoutEffect(() => {
-    const ctx = canvasRef.current.getContext("2d")!;
-    ctx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-    ctx.save();
-    ctx.scale(2, 2);
-    drawScene(ctx, cubes, surface);
-    ctx.restore();
-    const data = ctx.getImageData(
-      0,
-      0,
-      canvasRef.current.width,
-      canvasRef.current.height,
-    );
-    for (let i = 0; i < data.height * data.height; i++) {
-      data.data[4 * i + 3] = 255;
+    const name = `${sceneName}-${seed}-day`;
+    if (format === "gif") {
+      downloadFile(
+        `${name}.gif`,
+        new Blob([encodeGIF(images, EXPORTED_DAY_LENGTH / frameCount)], {
+          type: "image/gif",
+        }),
+      );
+      return;
     }
-    ctx.putImageData(data, 0, 0);
-  }, [surface, cubes]);
+    const files = images.map((image, i) => ({
+      name: `${name}-${String(i + 1).padStart(3, "0")}.png`,
+      data: encodePNG(image),
+    }));
+    downloadFile(
+      `${name}.zip`,
+      new Blob([encodeZip(files)], { type: "application/zip" }),
+    );
+  };
+
+  // React's `onWheel` can't prevent the page from scrolling, so the wheel
+  // listener is attached directly.
+  React.useEffect(() => {
+    const canvas = overlayRef.current;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const around = canvasPoint(canvas, e);
+      setViewport(v => v.zoom(Math.pow(1.002, -e.deltaY), around));
+    };
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, []);
+
   return (
     <div className="app">
-      <canvas ref={canvasRef} width={1600} height={1600} />
+      <div className="viewport">
+        <canvas ref={canvasRef} width={CANVAS_SIZE} height={CANVAS_SIZE} />
+        {progress !== null && (
+          <div className="progress" style={{ width: `${progress * 100}%` }} />
+        )}
+        <canvas
+          ref={overlayRef}
+          width={CANVAS_SIZE}
+          height={CANVAS_SIZE}
+          onMouseDown={e => {
+            drag.current = {
+              last: canvasPoint(e.currentTarget, e),
+              distance: 0,
+            };
+          }}
+          onMouseMove={e => {
+            const p = canvasPoint(e.currentTarget, e);
+            if (drag.current && e.buttons & 1) {
+              const { last, distance } = drag.current;
+              const [dx, dy] = [p.x - last.x, p.y - last.y];
+              drag.current = {
+                last: p,
+                distance: distance + Math.hypot(dx, dy),
+              };
+              setViewport(v => v.pan(dx, dy));
+              setHover(null);
+              return;
+            }
+            setHover(pickFace(pick, p, viewport));
+          }}
+          onMouseLeave={() => {
+            drag.current = null;
+            setHover(null);
+          }}
+          onClick={e => {
+            const dragged = drag.current && drag.current.distance > 8;
+            drag.current = null;
+            const target = pickFace(
+              pick,
+              canvasPoint(e.currentTarget, e),
+              viewport,
+            );
+            if (target && !dragged) {
+              const edited = applyEdit(cubes, target, tool, brush, rotation);
+              // Removed cubes lose their color, material and shape, so they
+              // don't get them back if they are added again.
+              const kept = <V extends unknown>(map: Map<Pt3, V>) =>
+                new Map([...map].filter(([cube]) => edited.has(cube)));
+              const painted = kept(materials);
+              const shaped = kept(blocks);
+              for (const cube of edited) {
+                if (!cubes.has(cube) && paint !== "ground") {
+                  painted.set(cube, paint);
+                }
+                if (!cubes.has(cube) && shape !== "cube") {
+                  shaped.set(cube, shape);
+                }
+              }
+              setColors(kept(colors));
+              setMaterials(painted);
+              setBlocks(shaped);
+              setCubes(edited);
+              setHover(null);
+            }
+          }}
+        />
+      </div>
       <div style={{ padding: 24, minWidth: 300 }}>
+        {renderError && (
+          <div className="error">couldn't render the scene: {renderError}</div>
+        )}
         <div>
           {Object.keys(scenes).map(name => (
+            <button onClick={() => generate(name as keyof typeof scenes, seed)}>
+              {name}
+            </button>
+          ))}
+        </div>
+        <div>
+          {[...Object.keys(builtinThemes), ...Object.keys(themes)].map(name => (
             <button
-              onClick={() => setCubes(scenes[name as keyof typeof scenes])}
+              className={palette === name ? "selected" : undefined}
+              onClick={() => setPalette(name)}
             >
               {name}
             </button>
           ))}
         </div>
         <div>
-          {Object.keys(surfaceColors).map(name => (
-            <button
-              onClick={() =>
-                setSurface(surfaceColors[name as keyof typeof surfaceColors])
+          <button
+            onClick={() => {
+              // New themes start as a copy of the current one.
+              const name = themeName(`${palette}_custom`, themes);
+              setThemes({ ...themes, [name]: theme });
+              setPalette(name);
+            }}
+          >
+            new theme
+          </button>
+          {isCustomTheme(themes, palette) && (
+            <>
+              <button
+                onClick={() =>
+                  downloadFile(
+                    `${palette}.json`,
+                    new Blob([serializeTheme(palette, theme)], {
+                      type: "application/json",
+                    }),
+                  )
+                }
+              >
+                export theme
+              </button>
+              <button
+                onClick={() => {
+                  const { [palette]: _, ...rest } = themes;
+                  setThemes(rest);
+                  setPalette("desert_stone");
+                }}
+              >
+                delete theme
+              </button>
+            </>
+          )}
+          <label className="file">
+            import theme
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={e => {
+                const input = e.target;
+                const file = input.files && input.files[0];
+                if (!file) {
+                  return;
+                }
+                const reader = new FileReader();
+                reader.onload = () => {
+                  input.value = "";
+                  try {
+                    const imported = parseThemeFile(reader.result as string);
+                    const added = addTheme(
+                      themes,
+                      imported.name,
+                      imported.theme,
+                    );
+                    setThemes(added.themes);
+                    setPalette(added.name);
+                    setFileError(null);
+                  } catch (error) {
+                    setFileError(error.message);
+                  }
+                };
+                reader.readAsText(file);
+              }}
+            />
+          </label>
+        </div>
+        {isCustomTheme(themes, palette) && (
+          <ThemeEditor
+            theme={theme}
+            onChange={edited => setThemes({ ...themes, [palette]: edited })}
+          />
+        )}
+        <div>
+          <label>
+            seed{" "}
+            <input
+              type="number"
+              value={seed}
+              onChange={e => {
+                const value = parseInt(e.target.value, 10);
+                if (!isNaN(value)) {
+                  generate(sceneName, value);
+                }
+              }}
+            />
+          </label>
+          <button onClick={() => generate(sceneName, randomSeed())}>
+            reroll
+          </button>
+        </div>
+        {sceneName === "terrain" && (
+          <div>
+            {([
+              ["size", 16, 128, 8],
+              ["octaves", 1, 8, 1],
+              ["frequency", 0.005, 0.15, 0.005],
+              ["amplitude", 1, 30, 1],
+              ["waterLevel", -20, 20, 1],
+            ] as const).map(([name, min, max, step]) => (
+              <label className="slider">
+                terrain {name}{" "}
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={terrainSettings[name]}
+                  onChange={e =>
+                    generate(sceneName, seed, {
+                      ...terrainSettings,
+                      [name]: parseFloat(e.target.value),
+                    })
+                  }
+                />
+              </label>
+            ))}
+            <label>
+              <input
+                type="checkbox"
+                checked={terrainSettings.smooth}
+                onChange={e =>
+                  generate(sceneName, seed, {
+                    ...terrainSettings,
+                    smooth: e.target.checked,
+                  })
+                }
+              />
+              smooth steps
+            </label>
+          </div>
+        )}
+        <div>
+          <button onClick={() => setRotation(((rotation + 3) % 4) as Rotation)}>
+            rotate left
+          </button>
+          <button onClick={() => setRotation(((rotation + 1) % 4) as Rotation)}>
+            rotate right
+          </button>
+          <button
+            onClick={() =>
+              setViewport(fitScene(cubes, rotation, CANVAS_SIZE, CANVAS_SIZE))
+            }
+          >
+            fit to scene
+          </button>
+        </div>
+        <div>
+          {([
+            ["azimuth", 0, 359],
+            ["elevation", 1, 90],
+            ["softness", 0, 20],
+          ] as const).map(([name, min, max]) => (
+            <label className="slider">
+              sun {name}{" "}
+              <input
+                type="range"
+                min={min}
+                max={max}
+                value={sun[name]}
+                onChange={e => {
+                  setSun({ ...sun, [name]: parseFloat(e.target.value) });
+                  // Moving the sun by hand stops the clock.
+                  if (name !== "softness") {
+                    setTime(null);
+                    setPlaying(false);
+                  }
+                }}
+              />
+            </label>
+          ))}
+        </div>
+        <div>
+          <label>
+            <input
+              type="checkbox"
+              checked={outline !== null}
+              onChange={e =>
+                setOutline(e.target.checked ? DEFAULT_OUTLINE : null)
               }
+            />
+            ink outlines
+          </label>
+          {outline &&
+            (["silhouette", "crease"] as const).map(kind => (
+              <label className="slider">
+                {kind}{" "}
+                <input
+                  type="range"
+                  min={0}
+                  max={0.2}
+                  step={0.005}
+                  value={outline[kind].width}
+                  onChange={e =>
+                    setOutline({
+                      ...outline,
+                      [kind]: {
+                        ...outline[kind],
+                        width: parseFloat(e.target.value),
+                      },
+                    })
+                  }
+                />
+                <input
+                  type="color"
+                  value={toHex(outline[kind].color)}
+                  onChange={e =>
+                    setOutline({
+                      ...outline,
+                      [kind]: {
+                        ...outline[kind],
+                        color: fromHex(e.target.value),
+                      },
+                    })
+                  }
+                />
+              </label>
+            ))}
+        </div>
+        <div>
+          <button onClick={() => setPlaying(!playing)}>
+            {playing ? "pause" : "play day"}
+          </button>
+          <label className="slider">
+            time of day {time === null ? "off" : clockTime(time)}{" "}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.005}
+              value={time === null ? 0.5 : time}
+              onChange={e => setTime(parseFloat(e.target.value))}
+            />
+          </label>
+          <label>
+            frames{" "}
+            <input
+              type="number"
+              min={2}
+              max={240}
+              value={frameCount}
+              onChange={e => {
+                const value = parseInt(e.target.value, 10);
+                if (!isNaN(value)) {
+                  setFrameCount(Math.max(2, Math.min(240, value)));
+                }
+              }}
+            />
+          </label>
+          <button onClick={() => exportDay("gif")}>export gif</button>
+          <button onClick={() => exportDay("png")}>export png frames</button>
+        </div>
+        <div>
+          {(["add", "remove"] as const).map(name => (
+            <button
+              className={tool === name ? "selected" : undefined}
+              onClick={() => setTool(name)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <div>
+          {Object.keys(materialList).map(name => (
+            <button
+              className={paint === name ? "selected" : undefined}
+              onClick={() => setPaint(name as MaterialName)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <div>
+          {(["cube", ...blockNames] as const).map(name => (
+            <button
+              className={shape === name ? "selected" : undefined}
+              onClick={() => setShape(name)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+        <div>
+          {(["single", "3x3", "column"] as const).map(name => (
+            <button
+              className={brush === name ? "selected" : undefined}
+              onClick={() => setBrush(name)}
             >
               {name}
             </button>
           ))}
         </div>
+        <div>
+          <button
+            onClick={() =>
+              downloadFile(
+                `${sceneName}-${seed}.svg`,
+                new Blob(
+                  [
+                    displayListToSVG(frame.list, {
+                      width: CANVAS_SIZE,
+                      height: CANVAS_SIZE,
+                      merge: mergeSVG,
+                    }),
+                  ],
+                  {
+                    type: "image/svg+xml",
+                  },
+                ),
+              )
+            }
+          >
+            export svg
+          </button>
+          <label>
+            <input
+              type="checkbox"
+              checked={mergeSVG}
+              onChange={e => setMergeSVG(e.target.checked)}
+            />
+            merge triangles
+          </label>
+        </div>
+        <div>
+          <button
+            onClick={() =>
+              downloadFile(
+                `${sceneName}-${seed}.json`,
+                new Blob(
+                  [
+                    serializeScene({
+                      cubes,
+                      materials,
+                      colors,
+                      blocks,
+                      palette,
+                      theme: isCustomTheme(themes, palette)
+                        ? themes[palette]
+                        : undefined,
+                      seed,
+                      rotation,
+                      viewport,
+                      sun,
+                    }),
+                  ],
+                  { type: "application/json" },
+                ),
+              )
+            }
+          >
+            save
+          </button>
+          <label className="file">
+            load
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={e => {
+                const input = e.target;
+                const file = input.files && input.files[0];
+                if (!file) {
+                  return;
+                }
+                const reader = new FileReader();
+                reader.onload = () => {
+                  input.value = "";
+                  try {
+                    const scene = parseSceneFile(reader.result as string);
+                    setCubes(scene.cubes);
+                    setMaterials(scene.materials);
+                    setColors(scene.colors);
+                    setBlocks(scene.blocks);
+                    if (scene.theme) {
+                      const added = addTheme(
+                        themes,
+                        scene.palette,
+                        scene.theme,
+                      );
+                      setThemes(added.themes);
+                      setPalette(added.name);
+                    } else {
+                      setPalette(scene.palette);
+                    }
+                    setSeed(scene.seed);
+                    setRotation(scene.rotation);
+                    setViewport(scene.viewport);
+                    setSun(scene.sun);
+                    setHover(null);
+                    setFileError(null);
+                  } catch (error) {
+                    setFileError(error.message);
+                  }
+                };
+                reader.readAsText(file);
+              }}
+            />
+          </label>
+          <button
+            onClick={() => {
+              try {
+                const vox = encodeVox(
+                  cubes,
+                  // Cubes without their own color are exported in the
+                  // color of their top in full sunlight.
+                  cube =>
+                    colors.get(cube) ||
+                    materialSurface(
+                      materials.get(cube) || "ground",
+                      surface,
+                    ).top(0.3 + cube.cy / 20 + 0.08),
+                );
+                downloadFile(
+                  `${sceneName}-${seed}.vox`,
+                  new Blob([vox], { type: "application/octet-stream" }),
+                );
+              } catch (error) {
+                setFileError(error.message);
+              }
+            }}
+          >
+            export .vox
+          </button>
+          <label className="file">
+            import .vox
+            <input
+              type="file"
+              accept=".vox"
+              onChange={e => {
+                const input = e.target;
+                const file = input.files && input.files[0];
+                if (!file) {
+                  return;
+                }
+                const reader = new FileReader();
+                reader.onload = () => {
+                  input.value = "";
+                  try {
+                    const model = parseVox(
+                      new Uint8Array(reader.result as ArrayBuffer),
+                    );
+                    setCubes(model.cubes);
+                    setMaterials(new Map());
+                    setColors(model.colors);
+                    setBlocks(new Map());
+                    setViewport(
+                      fitScene(model.cubes, rotation, CANVAS_SIZE, CANVAS_SIZE),
+                    );
+                    setHover(null);
+                    setFileError(null);
+                  } catch (error) {
+                    setFileError(error.message);
+                  }
+                };
+                reader.readAsArrayBuffer(file);
+              }}
+            />
+          </label>
+          {fileError && <div className="error">{fileError}</div>}
+        </div>
       </div>
     </div>
   );
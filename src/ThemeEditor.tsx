@@ -0,0 +1,284 @@
+import React from "react";
+import {
+  colorSpaces,
+  fromHex,
+  gradient,
+  rgb,
+  Theme,
+  ThemeGradient,
+  toHex,
+} from "./color";
+import { DEFAULT_SKY, Fog, Sky, skyKinds } from "./sky";
+
+type Side = "top" | "right" | "left";
+
+/**
+ * `DEFAULT_FOG` is the fog that turning fog on starts from.
+ */
+const DEFAULT_FOG: Fog = { color: [0.8, 0.84, 0.9], density: 1, falloff: 0.1 };
+
+/**
+ * Strips are drawn at `STRIP_WIDTH` pixels wide, then stretched by CSS.
+ */
+const STRIP_WIDTH = 256;
+
+/**
+ * `stripPosition` converts a mouse position into a position along a strip,
+ * rounded to a hundredth and kept between 0 and 1.
+ */
+function stripPosition(strip: HTMLElement, clientX: number): number {
+  const rect = strip.getBoundingClientRect();
+  const at = (clientX - rect.left) / rect.width;
+  return Math.round(Math.max(0, Math.min(1, at)) * 100) / 100;
+}
+
+/**
+ * `GradientStrip` shows one side's gradient, with a marker for each stop.
+ * Markers can be dragged to move their stop, and clicking the strip adds a
+ * stop in the color shown there.
+ */
+function GradientStrip(props: {
+  value: ThemeGradient;
+  selected: number | null;
+  onSelect: (stop: number) => void;
+  onChange: (value: ThemeGradient) => void;
+}) {
+  const { value, selected, onSelect, onChange } = props;
+  const canvasRef = React.useRef<HTMLCanvasElement>(null as any);
+  const [dragging, setDragging] = React.useState<number | null>(null);
+
+  React.useLayoutEffect(() => {
+    const ctx = canvasRef.current.getContext("2d")!;
+    const colors = gradient(value.stops, value.space);
+    for (let x = 0; x < STRIP_WIDTH; x++) {
+      ctx.fillStyle = rgb(...colors((x + 0.5) / STRIP_WIDTH));
+      ctx.fillRect(x, 0, 1, 1);
+    }
+  }, [value]);
+
+  // Once a drag starts, the mouse is followed anywhere in the window, so the
+  // stop doesn't get stuck when the mouse leaves the strip.
+  React.useEffect(() => {
+    if (dragging === null) {
+      return;
+    }
+    const strip = canvasRef.current;
+    const onMove = (e: MouseEvent) => {
+      const stops = [...value.stops];
+      stops[dragging] = {
+        ...stops[dragging],
+        at: stripPosition(strip, e.clientX),
+      };
+      onChange({ ...value, stops });
+    };
+    const onUp = () => setDragging(null);
+    window.addEventListener("mousemove", onMove);
+    window.addEventListener("mouseup", onUp);
+    return () => {
+      window.removeEventListener("mousemove", onMove);
+      window.removeEventListener("mouseup", onUp);
+    };
+  }, [dragging, value, onChange]);
+
+  return (
+    <div className="gradient-strip">
+      <canvas
+        ref={canvasRef}
+        width={STRIP_WIDTH}
+        height={1}
+        onClick={e => {
+          const at = stripPosition(e.currentTarget, e.clientX);
+          const color = gradient(value.stops, value.space)(at);
+          // Going through hex keeps the color the same once it is saved.
+          onChange({
+            ...value,
+            stops: [...value.stops, { at, color: fromHex(toHex(color)) }],
+          });
+          onSelect(value.stops.length);
+        }}
+      />
+      {value.stops.map(({ at, color }, i) => (
+        <div
+          className={i === selected ? "stop selected" : "stop"}
+          style={{
+            left: `${Math.max(0, Math.min(1, at)) * 100}%`,
+            background: rgb(...color),
+          }}
+          onMouseDown={e => {
+            e.preventDefault();
+            onSelect(i);
+            setDragging(i);
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * `ThemeEditor` edits the gradient on each side of a theme: stops can be
+ * added, moved, recolored and removed, and the color space that the
+ * gradient blends in can be changed. Below them are the theme's sky and fog.
+ */
+export function ThemeEditor(props: {
+  theme: Theme;
+  onChange: (theme: Theme) => void;
+}) {
+  const { theme, onChange } = props;
+  const [selected, setSelected] = React.useState<{
+    side: Side;
+    stop: number;
+  } | null>(null);
+  const stop =
+    selected && theme[selected.side].stops[selected.stop]
+      ? { ...selected, ...theme[selected.side].stops[selected.stop] }
+      : null;
+  const setSide = (side: Side, value: ThemeGradient) =>
+    onChange({ ...theme, [side]: value });
+  const sky = theme.sky || DEFAULT_SKY;
+  const setSky = (changes: Partial<Sky>) =>
+    onChange({ ...theme, sky: { ...sky, ...changes } });
+  const { fog } = theme;
+
+  return (
+    <div className="theme-editor">
+      {(["top", "right", "left"] as const).map(side => (
+        <div>
+          <div>
+            {side}{" "}
+            {colorSpaces.map(space => (
+              <button
+                className={theme[side].space === space ? "selected" : undefined}
+                onClick={() => setSide(side, { ...theme[side], space })}
+              >
+                {space}
+              </button>
+            ))}
+          </div>
+          <GradientStrip
+            value={theme[side]}
+            selected={selected && selected.side === side ? selected.stop : null}
+            onSelect={i => setSelected({ side, stop: i })}
+            onChange={value => setSide(side, value)}
+          />
+        </div>
+      ))}
+      {stop && (
+        <div>
+          <label>
+            {stop.side} stop at {stop.at.toFixed(2)}{" "}
+            <input
+              type="color"
+              value={toHex(stop.color)}
+              onChange={e => {
+                const stops = [...theme[stop.side].stops];
+                stops[stop.stop] = {
+                  ...stops[stop.stop],
+                  color: fromHex(e.target.value),
+                };
+                setSide(stop.side, { ...theme[stop.side], stops });
+              }}
+            />
+          </label>
+          <button
+            disabled={theme[stop.side].stops.length < 2}
+            onClick={() => {
+              setSide(stop.side, {
+                ...theme[stop.side],
+                stops: theme[stop.side].stops.filter((_, i) => i !== stop.stop),
+              });
+              setSelected(null);
+            }}
+          >
+            remove stop
+          </button>
+        </div>
+      )}
+      <div>
+        sky{" "}
+        {skyKinds.map(kind => (
+          <button
+            className={sky.kind === kind ? "selected" : undefined}
+            onClick={() => setSky({ kind })}
+          >
+            {kind}
+          </button>
+        ))}{" "}
+        {/* Each kind of sky uses one more color than the kind before it. */}
+        {(["top", "bottom", "clouds"] as const)
+          .slice(0, skyKinds.indexOf(sky.kind) + 1)
+          .map(key => (
+            <input
+              type="color"
+              title={key}
+              value={toHex(sky[key])}
+              onChange={e => setSky({ [key]: fromHex(e.target.value) })}
+            />
+          ))}
+      </div>
+      {sky.kind === "clouds" && (
+        <label className="slider">
+          cloud cover{" "}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.01}
+            value={sky.cover}
+            onChange={e => setSky({ cover: parseFloat(e.target.value) })}
+          />
+        </label>
+      )}
+      <label>
+        <input
+          type="checkbox"
+          checked={!!fog}
+          onChange={e =>
+            onChange({
+              ...theme,
+              fog: e.target.checked ? DEFAULT_FOG : undefined,
+            })
+          }
+        />
+        fog
+      </label>
+      {fog &&
+        ([
+          ["density", 0, 4, 0.05],
+          ["falloff", 0, 0.5, 0.01],
+        ] as const).map(([name, min, max, step]) => (
+          <label className="slider">
+            fog {name}{" "}
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={fog[name]}
+              onChange={e =>
+                onChange({
+                  ...theme,
+                  fog: { ...fog, [name]: parseFloat(e.target.value) },
+                })
+              }
+            />
+          </label>
+        ))}
+      {fog && (
+        <label>
+          fog color{" "}
+          <input
+            type="color"
+            value={toHex(fog.color)}
+            onChange={e =>
+              onChange({
+                ...theme,
+                fog: { ...fog, color: fromHex(e.target.value) },
+              })
+            }
+          />
+        </label>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+/**
+ * Jest can't bundle workers, so `worker-loader!` imports get a worker that
+ * never answers.
+ */
+export default class RenderWorker {
+  public onmessage = null;
+  public postMessage() {}
+  public terminate() {}
+}
@@ -0,0 +1,125 @@
+import { BlockName, blockNames, blockSurfaces, smoothSteps } from "./blocks";
+import { Rotation, toViewVector } from "./camera";
+import { pt3 } from "./geometry";
+import { box } from "./shapes";
+
+const rotations: Rotation[] = [0, 1, 2, 3];
+
+/**
+ * `inView` lists what `blockSurfaces` says is seen of `block`, with normals
+ * in view space.
+ */
+function inView(block: BlockName, rotation: Rotation) {
+  const surfaces = blockSurfaces(block, rotation);
+  return [surfaces.top, surfaces.right, surfaces.left].map(pair =>
+    pair.map(
+      seen =>
+        seen && {
+          face: seen.face,
+          normal: toViewVector(seen.normal, rotation),
+        },
+    ),
+  );
+}
+
+test("a slab shows its top through the lower half of a cube", () => {
+  expect(blockSurfaces("slab", 0)).toEqual({
+    top: [null, null],
+    right: [
+      { face: "up", normal: [0, 1, 0] },
+      { face: "right", normal: [0, 0, 1] },
+    ],
+    left: [
+      { face: "left", normal: [-1, 0, 0] },
+      { face: "up", normal: [0, 1, 0] },
+    ],
+  });
+});
+
+test("blocks leave part of their cell empty, and show slopes as tops", () => {
+  for (const block of blockNames) {
+    // An inside corner rising away from the viewer covers the whole cell,
+    // but from other sides, every block is see-through somewhere.
+    expect(
+      rotations.some(rotation => inView(block, rotation).flat().includes(null)),
+    ).toBe(true);
+    for (const rotation of rotations) {
+      const seen = inView(block, rotation).flat();
+      expect(seen.some(s => s !== null)).toBe(true);
+      for (const s of seen) {
+        if (s && s.normal.filter(n => n !== 0).length > 1) {
+          expect(s.face).toBe("up");
+        }
+      }
+    }
+  }
+  // A ramp rising away from the viewer shows its slope, but one rising
+  // towards the viewer is seen edge on.
+  expect(blockSurfaces("ramp_east", 0).top[0]).toEqual({
+    face: "up",
+    normal: [-1, 1, 0],
+  });
+  expect(
+    inView("ramp_west", 0)
+      .flat()
+      .every(s => !s || s.face !== "up"),
+  ).toBe(true);
+});
+
+test("turning the camera turns what blocks show", () => {
+  const turned = (block: BlockName) => {
+    const [kind, direction] = block.split("_");
+    const directions =
+      kind === "ramp"
+        ? ["east", "south", "west", "north"]
+        : ["se", "sw", "nw", "ne"];
+    const next = directions[(directions.indexOf(direction) + 1) % 4];
+    return `${kind}_${next}` as BlockName;
+  };
+  for (const block of blockNames) {
+    for (const rotation of rotations) {
+      const next = ((rotation + 1) % 4) as Rotation;
+      if (block === "slab") {
+        expect(inView(block, next)).toEqual(inView(block, rotation));
+      } else {
+        expect(inView(block, next)).toEqual(inView(turned(block), rotation));
+      }
+    }
+  }
+});
+
+test("steps in the ground are smoothed with ramps and corners", () => {
+  // A floor with a raised ledge where x is 3 or more.
+  const ledge = box(0, 0, 0, 5, 0, 5).union(box(3, 1, 0, 5, 1, 5)).cubes();
+  const ramps = smoothSteps(ledge);
+  for (let z = 0; z <= 5; z++) {
+    expect(ramps.get(pt3(2, 1, z))).toBe("ramp_east");
+  }
+  // Nothing leans against the ledge from further away, or goes on top of it.
+  expect(ramps.size).toBe(6);
+
+  // A pillar gets ramps on its sides and corners on its corners.
+  const pillar = box(0, 0, 0, 4, 0, 4).cubes();
+  pillar.add(pt3(2, 1, 2));
+  const around = smoothSteps(pillar);
+  expect(around.get(pt3(1, 1, 2))).toBe("ramp_east");
+  expect(around.get(pt3(2, 1, 3))).toBe("ramp_north");
+  expect(around.get(pt3(1, 1, 1))).toBe("corner_se");
+  expect(around.get(pt3(3, 1, 3))).toBe("corner_nw");
+  expect(around.size).toBe(8);
+
+  // Two walls meet in an inside corner.
+  const walls = box(0, 0, 0, 4, 0, 4)
+    .union(box(4, 1, 0, 4, 1, 4))
+    .union(box(0, 1, 4, 4, 1, 4))
+    .cubes();
+  expect(smoothSteps(walls).get(pt3(3, 1, 3))).toBe("inner_se");
+
+  // Only solid cubes have slopes put on them, or leaning on them.
+  const lake = box(0, 0, 0, 4, 0, 4).cubes();
+  lake.add(pt3(2, 1, 2));
+  expect(smoothSteps(lake, cube => cube !== pt3(2, 1, 2)).size).toBe(0);
+  expect(smoothSteps(lake, cube => cube.cx !== 1).has(pt3(1, 1, 2))).toBe(
+    false,
+  );
+});
@@ -0,0 +1,261 @@
+import { Rotation, toViewVector, toWorldVector } from "./camera";
+import { Pt3, triangleCorners, TriPt } from "./geometry";
+import { Face, FacePair, faceTriangles, Triplet } from "./mesh";
+
+/**
+ * `blockNames` lists the shapes that a cell can hold instead of a whole cube:
+ * - a `slab` fills the bottom half of its cell;
+ * - a `ramp` slopes up at 45° towards one side (`east` is +x and `south` is
+ *   +z, in world space);
+ * - a `corner` slopes up towards one corner, like the outside corner of a
+ *   hill, and an `inner` corner slopes up towards two sides, like the inside
+ *   corner of a valley.
+ */
+export const blockNames = [
+  "slab",
+  "ramp_east",
+  "ramp_south",
+  "ramp_west",
+  "ramp_north",
+  "corner_se",
+  "corner_sw",
+  "corner_nw",
+  "corner_ne",
+  "inner_se",
+  "inner_sw",
+  "inner_nw",
+  "inner_ne",
+] as const;
+
+export type BlockName = typeof blockNames[number];
+
+type Vector = [number, number, number];
+
+/**
+ * A `HalfSpace` is everything on the inside of a plane: the points `p` with
+ * `normal · p <= offset`, where `normal` points out of the block.
+ */
+type HalfSpace = { normal: Vector; offset: number };
+
+/**
+ * `SOLIDS` describes each block, turned to rise towards the east (for ramps)
+ * or the south-east (for corners), as the union of convex pieces of the cube
+ * centered on the origin; each piece is what the cube keeps of some
+ * half-spaces. `blockSolid` turns them to face other ways.
+ */
+const SOLIDS: Record<"slab" | "ramp" | "corner" | "inner", HalfSpace[][]> = {
+  slab: [[{ normal: [0, 1, 0], offset: 0 }]],
+  ramp: [[{ normal: [-1, 1, 0], offset: 0 }]],
+  corner: [
+    [
+      { normal: [-1, 1, 0], offset: 0 },
+      { normal: [0, 1, -1], offset: 0 },
+    ],
+  ],
+  inner: [
+    [{ normal: [-1, 1, 0], offset: 0 }],
+    [{ normal: [0, 1, -1], offset: 0 }],
+  ],
+};
+
+const CUBE: HalfSpace[] = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+].map(normal => ({ normal: normal as Vector, offset: 0.5 }));
+
+/**
+ * `blockSolid` returns the pieces of `block` in world space.
+ */
+function blockSolid(block: BlockName): HalfSpace[][] {
+  if (block === "slab") {
+    return SOLIDS.slab;
+  }
+  const [kind, direction] = block.split("_") as [
+    "ramp" | "corner" | "inner",
+    string,
+  ];
+  const turns = (kind === "ramp"
+    ? ["east", "south", "west", "north"]
+    : ["se", "sw", "nw", "ne"]
+  ).indexOf(direction) as Rotation;
+  // Turning a block is the same quarter turn that turning the camera makes.
+  return SOLIDS[kind].map(piece =>
+    piece.map(({ normal, offset }) => ({
+      normal: toViewVector(normal, turns),
+      offset,
+    })),
+  );
+}
+
+/**
+ * A `BlockSurface` is what is seen of a block in one triangle: which kind of
+ * face it counts as, and the world-space direction it points in. Slopes
+ * count as `up` faces.
+ */
+export type BlockSurface = { face: Face; normal: Vector };
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * `sightLine` finds where the line of sight through the center of a triangle
+ * first enters `pieces` (in view space), and the half-space it enters
+ * through, or returns `null` if it misses them.
+ * As in `Pt3.tri()`, the points that project onto `(u, v)` are
+ * `(u + s, v - s, -s)`, and the viewer is at `s = -Infinity`.
+ */
+function sightLine(
+  pieces: HalfSpace[][],
+  u: number,
+  v: number,
+): HalfSpace | null {
+  const from: Vector = [u, v, 0];
+  const along: Vector = [1, -1, -1];
+  let best: { s: number; through: HalfSpace } | null = null;
+  for (const piece of pieces) {
+    let enter = -Infinity;
+    let exit = Infinity;
+    let through: HalfSpace | null = null;
+    for (const half of [...CUBE, ...piece]) {
+      const rate = dot(half.normal, along);
+      const room = half.offset - dot(half.normal, from);
+      if (rate === 0) {
+        if (room < 0) {
+          exit = -Infinity;
+        }
+      } else if (rate < 0) {
+        if (room / rate > enter) {
+          enter = room / rate;
+          through = half;
+        }
+      } else {
+        exit = Math.min(exit, room / rate);
+      }
+    }
+    if (through && enter < exit - 1e-9 && (!best || enter < best.s)) {
+      best = { s: enter, through };
+    }
+  }
+  return best && best.through;
+}
+
+const VIEW_FACES: [Face, Vector][] = [
+  ["up", [0, 1, 0]],
+  ["left", [-1, 0, 0]],
+  ["right", [0, 0, 1]],
+];
+
+const surfaceCache = new Map<string, Triplet<FacePair<BlockSurface | null>>>();
+
+/**
+ * `blockSurfaces` says what is seen of `block` in each of the 6 triangles
+ * that a whole cube in its cell would cover, listed like a `CubeShader`'s
+ * faces, when the camera is turned by `rotation`. Triangles it leaves empty
+ * are `null`, so that whatever is behind them shows through.
+ *
+ * Blocks can't cover parts of triangles: each triangle shows whatever the
+ * line of sight through its center meets. Like cubes, blocks never reach
+ * out of their cells, so the nearest block along that line still wins.
+ */
+export function blockSurfaces(
+  block: BlockName,
+  rotation: Rotation,
+): Triplet<FacePair<BlockSurface | null>> {
+  const key = `${block};${rotation}`;
+  const cached = surfaceCache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const pieces = blockSolid(block).map(piece =>
+    piece.map(({ normal, offset }) => ({
+      normal: toViewVector(normal, rotation),
+      offset,
+    })),
+  );
+  const surface = (t: TriPt, side: "left" | "right") => {
+    const corners = triangleCorners(t, side);
+    const u = corners.reduce((sum, c) => sum + c.tx, 0) / 3;
+    const v = corners.reduce((sum, c) => sum + c.ty, 0) / 3;
+    const through = sightLine(pieces, u, v);
+    if (!through) {
+      return null;
+    }
+    const match = VIEW_FACES.find(([, normal]) =>
+      normal.every((n, i) => n === through.normal[i]),
+    );
+    return {
+      face: match ? match[0] : "up",
+      normal: toWorldVector(through.normal, rotation),
+    };
+  };
+  const pair = (face: Face): FacePair<BlockSurface | null> => {
+    const [[t0, side0], [t1, side1]] = faceTriangles(new TriPt(0, 0), face);
+    return [surface(t0, side0), surface(t1, side1)];
+  };
+  const surfaces = {
+    top: pair("up"),
+    right: pair("right"),
+    left: pair("left"),
+  };
+  surfaceCache.set(key, surfaces);
+  return surfaces;
+}
+
+const STEPS: [Vector, string][] = [
+  [[1, 0, 0], "east"],
+  [[0, 0, 1], "south"],
+  [[-1, 0, 0], "west"],
+  [[0, 0, -1], "north"],
+];
+
+/**
+ * `smoothSteps` returns blocks to put on top of `cubes` so that every step
+ * up onto higher ground becomes a slope: a ramp in front of a step, an inner
+ * corner where two steps meet, and a corner where the ground only rises
+ * diagonally. Only cubes for which `solid` is true get blocks put on them,
+ * or have blocks leaning against them; other places are left as they are.
+ */
+export function smoothSteps(
+  cubes: Set<Pt3>,
+  solid: (cube: Pt3) => boolean = () => true,
+): Map<Pt3, BlockName> {
+  const blocks = new Map<Pt3, BlockName>();
+  const filled = (cell: Pt3) => cubes.has(cell) && solid(cell);
+  for (const cube of cubes) {
+    const cell = cube.shift(0, 1, 0);
+    if (cubes.has(cell) || !solid(cube)) {
+      continue;
+    }
+    const higher = STEPS.map(([[dx, , dz]]) => filled(cell.shift(dx, 0, dz)));
+    const count = higher.filter(h => h).length;
+    if (count === 1) {
+      blocks.set(cell, `ramp_${STEPS[higher.indexOf(true)][1]}` as BlockName);
+    } else if (count === 2) {
+      // Only steps on two neighboring sides meet in a corner.
+      const i = higher.findIndex((h, i) => h && higher[(i + 1) % 4]);
+      if (i >= 0) {
+        blocks.set(
+          cell,
+          ["inner_se", "inner_sw", "inner_nw", "inner_ne"][i] as BlockName,
+        );
+      }
+    } else if (count === 0) {
+      const diagonals = STEPS.map(([[dx, , dz]], i) => {
+        const [[ex, , ez]] = STEPS[(i + 1) % 4];
+        return filled(cell.shift(dx + ex, 0, dz + ez));
+      });
+      if (diagonals.filter(d => d).length === 1) {
+        blocks.set(
+          cell,
+          ["corner_se", "corner_sw", "corner_nw", "corner_ne"][
+            diagonals.indexOf(true)
+          ] as BlockName,
+        );
+      }
+    }
+  }
+  return blocks;
+}
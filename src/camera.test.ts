@@ -0,0 +1,96 @@
+import { fitScene, Rotation, toView, toWorld, worldNormal } from "./camera";
+import { RGB } from "./color";
+import { applyEdit } from "./editing";
+import { pt, pt3, TriPt, Viewport } from "./geometry";
+import { Random } from "./random";
+import { shadeScene } from "./shading";
+
+const rotations: Rotation[] = [0, 1, 2, 3];
+
+test("toWorld undoes toView", () => {
+  for (const rotation of rotations) {
+    const p = pt3(3, -2, 7);
+    expect(toWorld(toView(p, rotation), rotation)).toBe(p);
+  }
+  expect(toView(pt3(3, -2, 7), 2)).toBe(pt3(-3, -2, -7));
+});
+
+test("each rotation shows a different pair of side faces", () => {
+  const seen = rotations.map(rotation =>
+    [worldNormal("left", rotation), worldNormal("right", rotation)].join(" "),
+  );
+  expect(new Set(seen).size).toBe(4);
+  for (const rotation of rotations) {
+    expect(worldNormal("up", rotation)).toEqual([0, 1, 0]);
+  }
+});
+
+test("side faces keep their world-space gradient when the camera turns", () => {
+  const alongX: RGB = [1, 0, 0];
+  const alongZ: RGB = [0, 0, 1];
+  const surface = {
+    top: (): RGB => [0, 1, 0],
+    left: () => alongX,
+    right: () => alongZ,
+  };
+  for (const rotation of rotations) {
+    const mesh = shadeScene(new Set([pt3(0, 0, 0)]), surface, new Random(1), {
+      rotation,
+    });
+    for (const face of [...mesh.left.values(), ...mesh.right.values()]) {
+      if (face.face !== "up") {
+        const normal = worldNormal(face.face, rotation);
+        expect(face.color).toBe(normal[0] !== 0 ? alongX : alongZ);
+      }
+    }
+  }
+});
+
+test("adding onto a side face uses the face's world-space direction", () => {
+  const cube = pt3(0, 0, 0);
+  const added = applyEdit(
+    new Set([cube]),
+    { cube, face: "left" },
+    "add",
+    "single",
+    2,
+  );
+  expect(added).toEqual(new Set([cube, pt3(1, 0, 0)]));
+});
+
+test("Viewport.unproject undoes project", () => {
+  const viewport = new Viewport(37, -120, 55);
+  const [tx, ty] = viewport.unproject(viewport.project(3.5, -2.25));
+  expect(tx).toBeCloseTo(3.5);
+  expect(ty).toBeCloseTo(-2.25);
+});
+
+test("zooming keeps the point under the mouse in place", () => {
+  const viewport = new Viewport(25, 400, 400);
+  const mouse = pt(130, 620);
+  const [tx, ty] = viewport.unproject(mouse);
+  const zoomed = viewport.zoom(1.7, mouse).project(tx, ty);
+  expect(zoomed.x).toBeCloseTo(mouse.x);
+  expect(zoomed.y).toBeCloseTo(mouse.y);
+});
+
+test("fitScene shows every cube in the scene", () => {
+  const cubes = [pt3(-40, 0, 3), pt3(25, 12, -30), pt3(0, -8, 0)];
+  for (const rotation of rotations) {
+    const viewport = fitScene(cubes, rotation, 300, 200);
+    for (const cube of cubes) {
+      const center = toView(cube, rotation).tri().pt(viewport);
+      expect(center.x).toBeGreaterThan(0);
+      expect(center.x).toBeLessThan(300);
+      expect(center.y).toBeGreaterThan(0);
+      expect(center.y).toBeLessThan(200);
+    }
+    // A bigger screen gets a bigger scale.
+    expect(fitScene(cubes, rotation, 600, 400).scale).toBeCloseTo(
+      viewport.scale * 2,
+    );
+  }
+  expect(new TriPt(0, 0).pt(fitScene([pt3(0, 0, 0)], 0, 100, 100))).toEqual(
+    pt(50, 50),
+  );
+});
@@ -0,0 +1,90 @@
+import { Pt3, TriPt, Viewport } from "./geometry";
+import { Face, faceNormal } from "./mesh";
+
+/**
+ * A `Rotation` is how many quarter turns the camera has made around the
+ * vertical axis. `Pt3.tri()` and `Pt3.depth()` always look from one direction,
+ * so cubes are turned into "view space" before they are projected.
+ */
+export type Rotation = 0 | 1 | 2 | 3;
+
+/**
+ * `turn` rotates a vector by a quarter turn around the vertical axis.
+ */
+function turn([x, y, z]: [number, number, number]): [number, number, number] {
+  // `0 - z` rather than `-z`, so that vectors never end up containing `-0`.
+  return [0 - z, y, x];
+}
+
+/**
+ * `toViewVector` turns a world-space vector into view space.
+ */
+export function toViewVector(
+  v: [number, number, number],
+  rotation: Rotation,
+): [number, number, number] {
+  for (let i = 0; i < rotation; i++) {
+    v = turn(v);
+  }
+  return v;
+}
+
+/**
+ * `toWorldVector` undoes `toViewVector`.
+ */
+export function toWorldVector(
+  v: [number, number, number],
+  rotation: Rotation,
+): [number, number, number] {
+  return toViewVector(v, ((4 - rotation) % 4) as Rotation);
+}
+
+/**
+ * `toView` moves a cube into view space, where it can be projected.
+ */
+export function toView(p: Pt3, rotation: Rotation): Pt3 {
+  return new Pt3(...toViewVector([p.cx, p.cy, p.cz], rotation));
+}
+
+/**
+ * `toWorld` undoes `toView`.
+ */
+export function toWorld(p: Pt3, rotation: Rotation): Pt3 {
+  return new Pt3(...toWorldVector([p.cx, p.cy, p.cz], rotation));
+}
+
+/**
+ * `worldNormal` returns the world-space direction that a visible face of a
+ * cube points in, when seen with the given camera rotation.
+ */
+export function worldNormal(
+  face: Face,
+  rotation: Rotation,
+): [number, number, number] {
+  return toWorldVector(faceNormal(face), rotation);
+}
+
+/**
+ * `fitScene` returns the viewport that shows every cube in `cubes`, as seen
+ * with `rotation`, on a `width` by `height` screen.
+ */
+export function fitScene(
+  cubes: Iterable<Pt3>,
+  rotation: Rotation,
+  width: number,
+  height: number,
+): Viewport {
+  function* corners(): Iterable<TriPt> {
+    for (const cube of cubes) {
+      // The outline of a cube is a hexagon around its center.
+      const center = toView(cube, rotation).tri();
+      yield center.shift(1, 0);
+      yield center.shift(0, 1);
+      yield center.shift(-1, 1);
+      yield center.shift(-1, 0);
+      yield center.shift(0, -1);
+      yield center.shift(1, -1);
+    }
+  }
+  return Viewport.fit(corners(), width, height);
+}
@@ -0,0 +1,83 @@
+import { rgb } from "./color";
+import { DisplayList, itemBounds, Rect } from "./displayList";
+import { RGBAImage } from "./raster";
+
+/**
+ * `drawDisplayList` paints a `DisplayList` onto a canvas.
+ * Each polygon is filled separately, so that shared edges are antialiased
+ * the same way no matter how the list was built.
+ */
+export function drawDisplayList(
+  ctx: CanvasRenderingContext2D,
+  list: DisplayList,
+) {
+  for (const item of list) {
+    ctx.fillStyle = rgb(...item.color);
+    for (const polygon of item.polygons) {
+      ctx.beginPath();
+      ctx.moveTo(...polygon[0].args());
+      for (const corner of polygon.slice(1)) {
+        ctx.lineTo(...corner.args());
+      }
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+}
+
+/**
+ * `backdrops` keeps the `ImageData` made for each sky image, so it is only
+ * copied once.
+ */
+const backdrops = new WeakMap<RGBAImage, ImageData>();
+
+/**
+ * `paintDisplayList` covers the canvas with `sky` (an image of the same size,
+ * such as a `skyImage`) and draws `list` over it.
+ * Given a `dirty` area, it only paints that part of the canvas again, drawing
+ * just the items that reach into it. As long as nothing outside `dirty` has
+ * changed, the canvas ends up the same as if all of it had been painted.
+ */
+export function paintDisplayList(
+  ctx: CanvasRenderingContext2D,
+  list: DisplayList,
+  sky: RGBAImage,
+  dirty?: Rect,
+) {
+  const { width, height } = ctx.canvas;
+  // Antialiasing can reach into the pixels around the edge of the area.
+  const x0 = dirty ? Math.max(0, Math.floor(dirty.x0) - 1) : 0;
+  const y0 = dirty ? Math.max(0, Math.floor(dirty.y0) - 1) : 0;
+  const x1 = dirty ? Math.min(width, Math.ceil(dirty.x1) + 1) : width;
+  const y1 = dirty ? Math.min(height, Math.ceil(dirty.y1) + 1) : height;
+  if (x0 >= x1 || y0 >= y1) {
+    return;
+  }
+  let backdrop = backdrops.get(sky);
+  if (!backdrop) {
+    backdrop = ctx.createImageData(sky.width, sky.height);
+    backdrop.data.set(sky.data);
+    backdrops.set(sky, backdrop);
+  }
+  ctx.putImageData(backdrop, 0, 0, x0, y0, x1 - x0, y1 - y0);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x0, y0, x1 - x0, y1 - y0);
+  ctx.clip();
+  drawDisplayList(
+    ctx,
+    dirty
+      ? list.filter(item => {
+          const bounds = itemBounds([item]);
+          return (
+            bounds &&
+            bounds.x1 >= x0 &&
+            bounds.x0 <= x1 &&
+            bounds.y1 >= y0 &&
+            bounds.y0 <= y1
+          );
+        })
+      : list,
+  );
+  ctx.restore();
+}
@@ -0,0 +1,82 @@
+import { ColorSpace, gradient, RGB, surfaceColors } from "./color";
+
+const red: RGB = [1, 0, 0];
+const blue: RGB = [0, 0, 1];
+const spaces: ColorSpace[] = ["srgb", "linear", "oklab", "hsl"];
+
+function expectColor(actual: RGB, expected: RGB) {
+  actual.forEach((c, i) => expect(c).toBeCloseTo(expected[i], 6));
+}
+
+test("gradients pass through their stops and hold past the ends", () => {
+  const stops = [
+    { at: 0.2, color: red },
+    { at: 0.9, color: blue },
+    { at: 0.5, color: [0.2, 0.8, 0.4] as RGB },
+  ];
+  for (const space of spaces) {
+    const g = gradient(stops, space);
+    expectColor(g(0.2), red);
+    expectColor(g(0.5), [0.2, 0.8, 0.4]);
+    expectColor(g(0.9), blue);
+    expect(g(-5)).toBe(red);
+    expect(g(0.95)).toBe(blue);
+  }
+  expect(() => gradient([])).toThrow(/at least one stop/);
+});
+
+test("stops at the same position make a hard edge", () => {
+  const g = gradient([
+    { at: 0, color: red },
+    { at: 0.5, color: red },
+    { at: 0.5, color: blue },
+    { at: 1, color: blue },
+  ]);
+  expectColor(g(0.4999), red);
+  expectColor(g(0.5), blue);
+});
+
+test("each color space blends differently", () => {
+  const black: RGB = [0, 0, 0];
+  const white: RGB = [1, 1, 1];
+  const mid = (space: ColorSpace, a: RGB, b: RGB) =>
+    gradient(
+      [
+        { at: 0, color: a },
+        { at: 1, color: b },
+      ],
+      space,
+    )(0.5);
+
+  expectColor(mid("srgb", black, white), [0.5, 0.5, 0.5]);
+  // Half the light is brighter than half of sRGB's encoded value.
+  expect(mid("linear", black, white)[0]).toBeCloseTo(0.735, 3);
+  // OKLab's lightness is close to how bright colors look.
+  expect(mid("oklab", black, white)[0]).toBeGreaterThan(0.38);
+  expect(mid("oklab", black, white)[0]).toBeLessThan(0.5);
+
+  // Raw sRGB goes through a dark purple; HSL keeps the color saturated.
+  expectColor(mid("srgb", red, blue), [0.5, 0, 0.5]);
+  expectColor(mid("hsl", red, blue), [1, 0, 1]);
+  // HSL turns the short way around, from rose through red to orange.
+  expectColor(mid("hsl", [1, 0, 0.5], [1, 0.5, 0]), [1, 0, 0]);
+  // Greys take on the hue of the other stop rather than turning through red.
+  expectColor(mid("hsl", [0.5, 0.5, 0.5], [0, 0, 1]), [0.25, 0.25, 0.75]);
+});
+
+test("surface palettes keep the colors of their stops", () => {
+  expectColor(surfaceColors.desert_stone.top(0), [176 / 255, 112 / 255, 0]);
+  expectColor(surfaceColors.desert_stone.top(0.25), [243 / 255, 166 / 255, 0]);
+  expectColor(surfaceColors.desert_stone.top(1), [
+    251 / 255,
+    225 / 255,
+    38 / 255,
+  ]);
+  expectColor(surfaceColors.blossoms.left(2 / 3), [0.95, 0.8, 0.9]);
+
+  // Blending in OKLab keeps the midpoint of the orange ramp bright instead
+  // of muddy.
+  const [r, g] = surfaceColors.desert_stone.top(0.125);
+  expect(r).toBeGreaterThan(((176 + 243) / 2 / 255) * 0.99);
+  expect(g).toBeGreaterThan(((112 + 166) / 2 / 255) * 0.99);
+});
@@ -0,0 +1,333 @@
+import { Random } from "./random";
+import { Fog, Sky } from "./sky";
+
+export type RGB = readonly [number, number, number];
+
+/**
+ * `toByte` converts one channel of a color into an integer in [0, 255].
+ * The input should be in the range [0, 1]; values outside this range will be clamped.
+ */
+export function toByte(x: number): number {
+  return Math.floor(Math.max(0, Math.min(255, x * 256)));
+}
+
+/**
+ * `rgb` converts an RGB triplet into a usable string.
+ * The inputs should be in the range [0, 1]; values outside this range will be clamped.
+ */
+export function rgb(r: number, g: number, b: number): string {
+  return `rgb(${toByte(r)}, ${toByte(g)}, ${toByte(b)})`;
+}
+
+/**
+ * `toHex` writes a color as `"#rrggbb"`.
+ */
+export function toHex(color: RGB): string {
+  return "#" + color.map(c => toByte(c).toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * `fromHex` reads a color written as `"#rrggbb"`.
+ */
+export function fromHex(hex: string): RGB {
+  const channel = (at: number) => parseInt(hex.slice(at, at + 2), 16) / 255;
+  return [channel(1), channel(3), channel(5)];
+}
+
+/**
+ * `perturbColor` returns the input color with some random variation.
+ */
+export function perturbColor(color: RGB, strength: number, rng: Random): RGB {
+  return [
+    color[0] + (rng.next() * 2 - 1) * strength,
+    color[1] + (rng.next() * 2 - 1) * strength,
+    color[2] + (rng.next() * 2 - 1) * strength,
+  ];
+}
+
+/**
+ * A `Gradient` maps a "lightness" score to a color.
+ */
+export type Gradient = (v: number) => RGB;
+
+/**
+ * A `GradientStop` fixes the color of a gradient at position `at`.
+ */
+export type GradientStop = { at: number; color: RGB };
+
+/**
+ * A `ColorSpace` is where a gradient blends its stops:
+ * - `"srgb"` mixes the stored channels directly, which tends to look dark and
+ *   muddy halfway between different hues;
+ * - `"linear"` mixes physical light intensities;
+ * - `"oklab"` mixes perceived lightness and hue evenly;
+ * - `"hsl"` turns through the hues between the stops, the short way around.
+ */
+export type ColorSpace = "srgb" | "linear" | "oklab" | "hsl";
+
+function toLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(c: number): number {
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055;
+  return Math.max(0, Math.min(1, v));
+}
+
+/**
+ * `toOklab` converts an sRGB color to OKLab `[L, a, b]`, using the matrices
+ * from Björn Ottosson's definition of the space.
+ */
+function toOklab(color: RGB): RGB {
+  const [r, g, b] = color.map(toLinear);
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function fromOklab([L, a, b]: RGB): RGB {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  ];
+}
+
+/**
+ * `toHSL` converts an sRGB color to `[hue, saturation, lightness]`, with hue
+ * in turns (from 0 to 1). Greys have no hue, so theirs is `NaN`.
+ */
+function toHSL([r, g, b]: RGB): RGB {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) {
+    return [NaN, 0, l];
+  }
+  const s = d / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) {
+    h = (g - b) / d + (g < b ? 6 : 0);
+  } else if (max === g) {
+    h = (b - r) / d + 2;
+  } else {
+    h = (r - g) / d + 4;
+  }
+  return [h / 6, s, l];
+}
+
+function fromHSL([h, s, l]: RGB): RGB {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const channel = (n: number) => {
+    const k = (n + (isNaN(h) ? 0 : h) * 12) % 12;
+    return l - (c / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+const COLOR_SPACES: Record<
+  ColorSpace,
+  { to: (color: RGB) => RGB; from: (color: RGB) => RGB }
+> = {
+  srgb: { to: c => c, from: c => c },
+  linear: {
+    to: c => [toLinear(c[0]), toLinear(c[1]), toLinear(c[2])],
+    from: c => [fromLinear(c[0]), fromLinear(c[1]), fromLinear(c[2])],
+  },
+  oklab: { to: toOklab, from: fromOklab },
+  hsl: { to: toHSL, from: fromHSL },
+};
+
+/**
+ * `colorSpaces` lists every `ColorSpace`.
+ */
+export const colorSpaces = Object.keys(COLOR_SPACES) as ColorSpace[];
+
+/**
+ * `mixHSL` blends two HSL colors, turning the short way around the hue
+ * circle. A grey takes on the hue of the color it is blended with.
+ */
+function mixHSL(a: RGB, b: RGB, amount: number): RGB {
+  let [h0, h1] = [a[0], b[0]];
+  if (isNaN(h0)) {
+    h0 = h1;
+  } else if (isNaN(h1)) {
+    h1 = h0;
+  }
+  let turn = h1 - h0;
+  turn -= Math.round(turn);
+  const h = (((h0 + turn * amount) % 1) + 1) % 1;
+  return [h, a[1] + (b[1] - a[1]) * amount, a[2] + (b[2] - a[2]) * amount];
+}
+
+/**
+ * `gradient` builds a `Gradient` through `stops`, blending neighbouring stops
+ * in `space`. Before the first stop and after the last, the gradient keeps
+ * their colors. Two stops at the same position make a hard edge.
+ */
+export function gradient(
+  stops: GradientStop[],
+  space: ColorSpace = "oklab",
+): Gradient {
+  if (stops.length === 0) {
+    throw new Error("a gradient needs at least one stop");
+  }
+  const { to, from } = COLOR_SPACES[space];
+  const sorted = [...stops].sort((a, b) => a.at - b.at);
+  const positions = sorted.map(stop => stop.at);
+  const colors = sorted.map(stop => stop.color);
+  const converted = colors.map(to);
+  return v => {
+    if (!(v > positions[0])) {
+      return colors[0];
+    }
+    if (v >= positions[positions.length - 1]) {
+      return colors[colors.length - 1];
+    }
+    let i = 0;
+    while (positions[i + 1] <= v) {
+      i++;
+    }
+    const amount = (v - positions[i]) / (positions[i + 1] - positions[i]);
+    const [a, b] = [converted[i], converted[i + 1]];
+    if (space === "hsl") {
+      return from(mixHSL(a, b, amount));
+    }
+    return from([
+      a[0] + (b[0] - a[0]) * amount,
+      a[1] + (b[1] - a[1]) * amount,
+      a[2] + (b[2] - a[2]) * amount,
+    ]);
+  };
+}
+
+/**
+ * A `Surface` gives the colors for all 3 visible sides of a cube.
+ */
+export type Surface = { top: Gradient; right: Gradient; left: Gradient };
+
+/**
+ * A `ThemeGradient` is a gradient kept as data, so that it can be edited and
+ * saved; `gradient` turns it into a `Gradient`.
+ */
+export type ThemeGradient = { space: ColorSpace; stops: GradientStop[] };
+
+/**
+ * A `Theme` is a `Surface` kept as data, along with the `sky` drawn behind
+ * scenes (`DEFAULT_SKY` if missing) and the `fog` over them (none if
+ * missing).
+ */
+export type Theme = {
+  top: ThemeGradient;
+  right: ThemeGradient;
+  left: ThemeGradient;
+  sky?: Sky;
+  fog?: Fog;
+};
+
+/**
+ * `themeSurface` builds the `Surface` that a theme describes.
+ */
+export function themeSurface(theme: Theme): Surface {
+  return {
+    top: gradient(theme.top.stops, theme.top.space),
+    right: gradient(theme.right.stops, theme.right.space),
+    left: gradient(theme.left.stops, theme.left.space),
+  };
+}
+
+const greySides: ThemeGradient = {
+  space: "oklab",
+  stops: [
+    { at: 0, color: [0.55, 0.55, 0.6] },
+    { at: 1 / 3, color: [0.7, 0.7, 0.8] },
+    { at: 2 / 3, color: [0.8, 0.8, 0.85] },
+  ],
+};
+
+/**
+ * `builtinThemes` are the themes that come with the app. Each gradient
+ * receives as a parameter a "lightness" score.
+ */
+export const builtinThemes: Record<"desert_stone" | "blossoms", Theme> = {
+  desert_stone: {
+    top: {
+      space: "oklab",
+      stops: [
+        { at: 0, color: [176 / 255, 112 / 255, 0] },
+        { at: 0.25, color: [243 / 255, 166 / 255, 0] },
+        { at: 0.5, color: [254 / 255, 175 / 255, 0] },
+        { at: 0.75, color: [251 / 255, 225 / 255, 38 / 255] },
+      ],
+    },
+    right: greySides,
+    left: {
+      space: "oklab",
+      stops: [
+        { at: 0, color: [0.4, 0.3, 0.3] },
+        { at: 0.5, color: [0.5, 0.45, 0.3] },
+      ],
+    },
+    sky: {
+      kind: "gradient",
+      top: [0.36, 0.56, 0.82],
+      bottom: [0.96, 0.86, 0.68],
+      clouds: [1, 0.97, 0.92],
+      cover: 0.3,
+    },
+  },
+  blossoms: {
+    top: {
+      space: "oklab",
+      stops: [
+        { at: 0, color: [100 / 255, 30 / 255 / 3, 76 / 255] },
+        { at: 1 / 3, color: [183 / 255, 55 / 255, 146 / 255] },
+        { at: 2 / 3, color: [190 / 255, 150 / 255, 220 / 255] },
+      ],
+    },
+    right: greySides,
+    left: {
+      space: "oklab",
+      stops: [
+        { at: 0, color: [0.6, 0.5, 0.65] },
+        { at: 1 / 3, color: [0.9, 0.7, 0.85] },
+        { at: 2 / 3, color: [0.95, 0.8, 0.9] },
+      ],
+    },
+    sky: {
+      kind: "clouds",
+      top: [0.42, 0.48, 0.78],
+      bottom: [0.93, 0.78, 0.88],
+      clouds: [1, 0.96, 0.98],
+      cover: 0.45,
+    },
+  },
+};
+
+/**
+ * `surfaceColors` describes the colors for all 3 visible sides of each cube,
+ * for each of the `builtinThemes`.
+ */
+export const surfaceColors: Record<keyof typeof builtinThemes, Surface> = {
+  desert_stone: themeSurface(builtinThemes.desert_stone),
+  blossoms: themeSurface(builtinThemes.blossoms),
+};
+
+/**
+ * `isBuiltinTheme` says whether `name` is one of the `builtinThemes`, and not
+ * just a name every object has, like `constructor`.
+ */
+export function isBuiltinTheme(
+  name: string,
+): name is keyof typeof builtinThemes {
+  return Object.prototype.hasOwnProperty.call(builtinThemes, name);
+}
@@ -0,0 +1,70 @@
+import { surfaceColors } from "./color";
+import { clockTime, renderDay, sunAt, tintAt } from "./dayCycle";
+import { pt3, Pt3, Viewport } from "./geometry";
+import { Random } from "./random";
+import { shadeScene } from "./shading";
+
+test("the sun rises, crosses the sky and sets, and the moon follows", () => {
+  expect(sunAt(0.5)).toMatchObject({ azimuth: 90, elevation: 70 });
+  expect(sunAt(0.3).elevation).toBeLessThan(sunAt(0.4).elevation);
+  expect(sunAt(0.6).azimuth).toBeLessThan(sunAt(0.7).azimuth);
+  // At midnight, the moon is where the sun is at noon.
+  expect(sunAt(0)).toEqual(sunAt(0.5));
+  expect(sunAt(1.5, 3)).toEqual(sunAt(0.5, 3));
+  for (let time = 0; time < 1; time += 0.01) {
+    expect(sunAt(time).elevation).toBeGreaterThan(0);
+  }
+});
+
+test("the light is white at noon and dim and blue at night", () => {
+  tintAt(0.5).forEach(c => expect(c).toBeCloseTo(1));
+  const [r, g, b] = tintAt(0);
+  expect(b).toBeGreaterThan(r);
+  expect(r + g + b).toBeLessThan(1.5);
+  expect(tintAt(0.75)[2]).toBeLessThan(tintAt(0.75)[0]);
+  expect(tintAt(-0.25)).toEqual(tintAt(0.75));
+});
+
+test("clockTime writes times of day on a 24-hour clock", () => {
+  expect(clockTime(0)).toBe("00:00");
+  expect(clockTime(0.5)).toBe("12:00");
+  expect(clockTime(0.771)).toBe("18:30");
+  expect(clockTime(0.9999)).toBe("00:00");
+});
+
+test("tinting multiplies the color of every face", () => {
+  const cubes = new Set<Pt3>([pt3(0, 0, 0), pt3(1, 0, 0)]);
+  const materials = new Map([[pt3(1, 0, 0), "stone" as const]]);
+  const plain = shadeScene(cubes, surfaceColors.desert_stone, new Random(1), {
+    materials,
+  });
+  const tinted = shadeScene(cubes, surfaceColors.desert_stone, new Random(1), {
+    materials,
+    tint: [0.5, 1, 0],
+  });
+  for (const side of ["left", "right"] as const) {
+    for (const [t, face] of plain[side]) {
+      const { color } = tinted[side].get(t)!;
+      expect(color[0]).toBeCloseTo(face.color[0] * 0.5);
+      expect(color[1]).toBeCloseTo(face.color[1]);
+      expect(color[2]).toBe(0);
+    }
+  }
+});
+
+test("renderDay renders frames spread over a day", () => {
+  const cubes = new Set<Pt3>([pt3(0, 0, 0), pt3(0, 1, 0)]);
+  const frames = renderDay(cubes, surfaceColors.blossoms, 1, {
+    frames: 4,
+    width: 40,
+    height: 40,
+    scale: 1,
+    viewport: new Viewport(8, 20, 20),
+  });
+  expect(frames).toHaveLength(4);
+  const brightness = frames.map(image =>
+    image.data.reduce((sum, byte, i) => (i % 4 === 3 ? sum : sum + byte), 0),
+  );
+  // Midnight is darker than noon.
+  expect(brightness[0]).toBeLessThan(brightness[2]);
+});
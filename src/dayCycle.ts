@@ -0,0 +1,122 @@
+import { gradient, RGB, Surface } from "./color";
+import { Pt3, Viewport } from "./geometry";
+import { OutlineStyle } from "./outlines";
+import { RGBAImage, rasterizeDisplayList } from "./raster";
+import { renderScene, ShadeOptions } from "./shading";
+import { Sun } from "./shadows";
+import { DEFAULT_SKY, Sky, skyImage, tintImage } from "./sky";
+
+/**
+ * `NOON_ELEVATION` is how high the sun climbs, in degrees.
+ */
+const NOON_ELEVATION = 70;
+
+/**
+ * `LOWEST_ELEVATION` keeps the light from grazing the ground at sunrise and
+ * sunset, where shadows would grow without end.
+ */
+const LOWEST_ELEVATION = 4;
+
+/**
+ * `sunAt` returns where the light comes from at `time`, which runs from 0 to 1
+ * over a day: 0 is midnight, 0.25 sunrise, 0.5 noon and 0.75 sunset.
+ * The sun rises along the x axis and sets opposite it, crossing the sky
+ * towards the z axis; at night, the moon follows the same path.
+ */
+export function sunAt(time: number, softness = 0): Sun {
+  const day = (((time - 0.25) % 1) + 1) % 1;
+  // The moon takes over at sunset, half a day behind the sun.
+  const arc = day < 0.5 ? day : day - 0.5;
+  return {
+    azimuth: arc * 360,
+    elevation: Math.max(
+      LOWEST_ELEVATION,
+      NOON_ELEVATION * Math.sin(arc * 2 * Math.PI),
+    ),
+    softness,
+  };
+}
+
+/**
+ * `DAY_TINT` is the color of the light through the day: dim blue at night,
+ * rosy at dawn, white at noon and orange at dusk.
+ */
+const DAY_TINT = gradient(
+  [
+    { at: 0, color: [0.25, 0.3, 0.55] },
+    { at: 0.2, color: [0.25, 0.3, 0.55] },
+    { at: 0.27, color: [1, 0.72, 0.7] },
+    { at: 0.36, color: [1, 1, 1] },
+    { at: 0.64, color: [1, 1, 1] },
+    { at: 0.74, color: [1, 0.62, 0.4] },
+    { at: 0.8, color: [0.25, 0.3, 0.55] },
+    { at: 1, color: [0.25, 0.3, 0.55] },
+  ],
+  "linear",
+);
+
+/**
+ * `tintAt` returns the color of the light at `time`, for `ShadeOptions.tint`.
+ */
+export function tintAt(time: number): RGB {
+  return DAY_TINT(((time % 1) + 1) % 1);
+}
+
+/**
+ * `clockTime` writes a time of day as a 24-hour clock time, like `"18:30"`.
+ */
+export function clockTime(time: number): string {
+  const minutes = Math.round((((time % 1) + 1) % 1) * 24 * 60) % (24 * 60);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+/**
+ * `renderDay` renders `frames` pictures of a scene spread evenly over a whole
+ * day, starting at `start`, so that the last frame leads back into the first.
+ * The sun's softness is kept from `options.sun`; everything else about the
+ * light comes from the time of day, which tints `sky` along with the scene.
+ */
+export function renderDay(
+  cubes: Set<Pt3>,
+  surface: Surface,
+  seed: number,
+  {
+    frames,
+    start = 0,
+    width,
+    height,
+    scale,
+    viewport,
+    sun,
+    sky = DEFAULT_SKY,
+    ...options
+  }: ShadeOptions & {
+    outline?: OutlineStyle;
+    sky?: Sky;
+    frames: number;
+    start?: number;
+    width: number;
+    height: number;
+    scale: number;
+    viewport: Viewport;
+  },
+): RGBAImage[] {
+  const images: RGBAImage[] = [];
+  const backdrop = skyImage(sky, width, height);
+  for (let frame = 0; frame < frames; frame++) {
+    const time = start + frame / frames;
+    const tint = tintAt(time);
+    const list = renderScene(cubes, surface, seed, {
+      ...options,
+      viewport,
+      sun: sunAt(time, sun ? sun.softness : 0),
+      tint,
+    });
+    const background = tintImage(backdrop, tint);
+    images.push(
+      rasterizeDisplayList(list, { width, height, scale, background }),
+    );
+  }
+  return images;
+}
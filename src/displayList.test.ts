@@ -0,0 +1,94 @@
+import { RGB } from "./color";
+import { buildDisplayList, IncrementalDisplayList } from "./displayList";
+import { pt3, TriPt } from "./geometry";
+import { Random } from "./random";
+import { renderScene, shadeScene } from "./shading";
+
+const red: RGB = [1, 0, 0];
+const green: RGB = [0, 1, 0];
+const blue: RGB = [0, 0, 1];
+const flat = { top: () => red, right: () => green, left: () => blue };
+
+test("a single cube draws six faces and grass on its top", () => {
+  const list = renderScene(new Set([pt3(0, 0, 0)]), flat, 1);
+
+  const faces = list.filter(item => item.kind === "face");
+  expect(faces).toHaveLength(6);
+  expect(faces.filter(item => item.color === green)).toHaveLength(2);
+  expect(faces.filter(item => item.color === blue)).toHaveLength(2);
+  for (const face of faces) {
+    expect(face.polygons).toHaveLength(1);
+    expect(face.polygons[0]).toHaveLength(3);
+  }
+
+  const effects = list.filter(item => item.kind === "effect");
+  expect(effects).toHaveLength(2);
+  expect(list.slice(-2)).toEqual(effects);
+});
+
+test("nearer cubes cover the triangles of cubes behind them", () => {
+  const surface = (color: RGB) => ({
+    top: () => color,
+    right: () => color,
+    left: () => color,
+  });
+  const rng = new Random(1);
+  const far = shadeScene(new Set([pt3(0, 0, 0)]), surface(red), rng);
+  const near = shadeScene(new Set([pt3(-1, 1, 1)]), surface(blue), rng);
+
+  // Both cubes project onto the same hexagon, so only the nearer one shows.
+  const both = shadeScene(new Set([pt3(0, 0, 0), pt3(-1, 1, 1)]), flat, rng);
+  expect([...both.left.keys()]).toEqual([...near.left.keys()]);
+  expect([...both.right.keys()]).toEqual([...near.right.keys()]);
+  expect([...far.left.keys()]).toEqual([...near.left.keys()]);
+  for (const face of [...both.left.values(), ...both.right.values()]) {
+    expect(face.depth).toBe(pt3(-1, 1, 1).depth());
+  }
+});
+
+test("items are ordered from back to front", () => {
+  const cubes = new Set([pt3(0, 0, 0), pt3(1, 0, 0), pt3(0, 1, 0)]);
+  const list = renderScene(cubes, flat, 1);
+  for (let i = 1; i < list.length; i++) {
+    expect(list[i].depth).toBeLessThanOrEqual(list[i - 1].depth);
+  }
+});
+
+test("the same seed always builds the same display list", () => {
+  const cubes = new Set([pt3(0, 0, 0), pt3(1, 0, 0), pt3(0, 0, 1)]);
+  expect(renderScene(cubes, flat, 7)).toEqual(renderScene(cubes, flat, 7));
+  expect(renderScene(cubes, flat, 7)).not.toEqual(renderScene(cubes, flat, 8));
+});
+
+test("grass blades don't depend on the order triangles are visited", () => {
+  const rng = new Random(3);
+  const forward = shadeScene(new Set([pt3(0, 0, 0), pt3(2, 0, 0)]), flat, rng);
+  const backward = shadeScene(new Set([pt3(2, 0, 0), pt3(0, 0, 0)]), flat, rng);
+  const blades = (list: ReturnType<typeof buildDisplayList>) =>
+    list
+      .filter(item => item.kind === "effect")
+      .map(item => item.polygons)
+      .sort((a, b) => a[0][0].x - b[0][0].x);
+  expect(blades(buildDisplayList(forward, rng.fork(1)))).toEqual(
+    blades(buildDisplayList(backward, rng.fork(1))),
+  );
+});
+
+test("updating triangles that look the same repaints nothing", () => {
+  const cubes = new Set([pt3(0, 0, 0), pt3(1, 0, 0)]);
+  const mesh = shadeScene(cubes, flat, new Random(1));
+  const display = new IncrementalDisplayList(mesh, new Random(1));
+  const all = (["left", "right"] as const).flatMap(side =>
+    [...mesh[side].keys()].map(t => [t, side] as [TriPt, "left" | "right"]),
+  );
+  const before = display.list;
+  expect(display.update(mesh, all)).toBeNull();
+  expect(display.list).toEqual(before);
+  expect(display.update(mesh, [])).toBeNull();
+
+  // Taking a cube away does need repainting.
+  cubes.delete(pt3(1, 0, 0));
+  const smaller = shadeScene(cubes, flat, new Random(1));
+  expect(display.update(smaller, all)).not.toBeNull();
+  expect(display.list).toEqual(buildDisplayList(smaller, new Random(1)));
+});
@@ -0,0 +1,350 @@
+import { RGB } from "./color";
+import { drawEffect } from "./effects";
+import {
+  DEFAULT_VIEWPORT,
+  P,
+  Pt3,
+  triangleCorners,
+  TriPt,
+  Viewport,
+} from "./geometry";
+import { Face, Mesh } from "./mesh";
+import { outlineItems, outlineSlots, OutlineStyle } from "./outlines";
+import { Random } from "./random";
+
+/**
+ * `ShadedFace` is what `shadeScene` stores in each triangle of its `Mesh`.
+ * `cube` and `face` record which cube the triangle was stamped from.
+ * `style` names the effect drawn over the face (see `registerEffect`);
+ * styles without one, like `"stone"`, are drawn plain.
+ * Blocks can show one kind of face through the triangles of another, such
+ * as a slope through a side's triangle (see `blockSurfaces`); `slot` is then
+ * the face of the cube that the triangle belongs to.
+ */
+export type ShadedFace = {
+  depth: number;
+  color: RGB;
+  style: string;
+  cube: Pt3;
+  face: Face;
+  slot?: Face;
+};
+
+/**
+ * A `DisplayItem` is a set of polygons that are all filled with one color.
+ * Polygons are closed, and their corners are in screen coordinates.
+ *
+ * `"face"` items are a single triangle of the `Mesh`; faces never overlap
+ * each other. `"effect"` items (like grass) are drawn over the faces
+ * behind them. `"outline"` items (see `OutlineStyle`) are drawn over
+ * everything, with a depth of `-Infinity`.
+ */
+export type DisplayItem = {
+  kind: "face" | "effect" | "outline";
+  depth: number;
+  color: RGB;
+  polygons: P[][];
+};
+
+/**
+ * A `DisplayList` is drawn in order, so later items cover earlier ones.
+ */
+export type DisplayList = DisplayItem[];
+
+/**
+ * A `Rect` is an area of the screen, from `(x0, y0)` up to `(x1, y1)`.
+ */
+export type Rect = { x0: number; y0: number; x1: number; y1: number };
+
+/**
+ * `unionRect` returns the smallest `Rect` holding both `a` and `b`, either of
+ * which may be missing.
+ */
+export function unionRect(a: Rect | null, b: Rect | null): Rect | null {
+  if (!a || !b) {
+    return a || b;
+  }
+  return {
+    x0: Math.min(a.x0, b.x0),
+    y0: Math.min(a.y0, b.y0),
+    x1: Math.max(a.x1, b.x1),
+    y1: Math.max(a.y1, b.y1),
+  };
+}
+
+/**
+ * `itemBounds` returns the smallest `Rect` holding every polygon in `items`,
+ * or `null` if there are none.
+ */
+export function itemBounds(items: DisplayItem[]): Rect | null {
+  let bounds: Rect | null = null;
+  for (const item of items) {
+    for (const polygon of item.polygons) {
+      for (const { x, y } of polygon) {
+        bounds = unionRect(bounds, { x0: x, y0: y, x1: x, y1: y });
+      }
+    }
+  }
+  return bounds;
+}
+
+/**
+ * A `DisplayEntry` holds the items drawn for one triangle of the mesh: either
+ * its fill, or the surface effect drawn over it. Entries in a higher `layer`
+ * are drawn over the whole mesh: layer 1 holds the creases along the edges
+ * of the left triangle at `t`, and layer 2 its silhouettes.
+ */
+type DisplayEntry = {
+  layer: number;
+  t: TriPt;
+  side: "left" | "right";
+  depth: number;
+  items: DisplayItem[];
+};
+
+/**
+ * `sameEntries` says whether two lists of entries draw exactly the same
+ * items in the same place in the drawing order.
+ */
+function sameEntries(a: DisplayEntry[], b: DisplayEntry[]): boolean {
+  const samePolygon = (p: P[], q: P[]) =>
+    p.length === q.length &&
+    p.every(({ x, y }, i) => x === q[i].x && y === q[i].y);
+  const sameItem = (i: DisplayItem, j: DisplayItem) =>
+    i.kind === j.kind &&
+    i.depth === j.depth &&
+    i.color.every((c, k) => c === j.color[k]) &&
+    i.polygons.length === j.polygons.length &&
+    i.polygons.every((polygon, k) => samePolygon(polygon, j.polygons[k]));
+  return (
+    a.length === b.length &&
+    a.every(
+      (entry, i) =>
+        entry.layer === b[i].layer &&
+        entry.depth === b[i].depth &&
+        entry.items.length === b[i].items.length &&
+        entry.items.every((item, k) => sameItem(item, b[i].items[k])),
+    )
+  );
+}
+
+/**
+ * `triangleEntries` returns the fill and effect entries of one triangle.
+ * Effects are placed just in front of the triangle they belong to, so that
+ * nearer triangles still cover them. Since `Pt3.depth()` is an integer, the
+ * half step puts them in front of every triangle at the same depth.
+ */
+function triangleEntries(
+  t: TriPt,
+  side: "left" | "right",
+  face: ShadedFace,
+  rng: Random,
+  viewport: Viewport,
+): [DisplayEntry, DisplayEntry] {
+  const depth = face.depth - 0.5;
+  return [
+    {
+      layer: 0,
+      t,
+      side,
+      depth: face.depth,
+      items: [
+        {
+          kind: "face",
+          depth: face.depth,
+          color: face.color,
+          polygons: [triangleCorners(t, side).map(c => c.pt(viewport))],
+        },
+      ],
+    },
+    {
+      layer: 0,
+      t,
+      side,
+      depth,
+      items: drawEffect(t, side, face, rng, viewport).map(layer => ({
+        kind: "effect",
+        depth,
+        ...layer,
+      })),
+    },
+  ];
+}
+
+/**
+ * `slotEntries` returns the outline entries for the edges of the left
+ * triangle at `t` (see `outlineItems`).
+ */
+function slotEntries(
+  mesh: Mesh<ShadedFace>,
+  t: TriPt,
+  outline: OutlineStyle,
+  viewport: Viewport,
+): DisplayEntry[] {
+  return outlineItems(mesh, t, outline, viewport).map(
+    ({ kind, color, polygons }) => ({
+      layer: kind === "crease" ? 1 : 2,
+      t,
+      side: "left",
+      depth: -Infinity,
+      items: [{ kind: "outline", depth: -Infinity, color, polygons }],
+    }),
+  );
+}
+
+/**
+ * `drawOrder` sorts entries from back to front. Entries at the same depth
+ * never overlap by more than an edge, but they are still put in a fixed
+ * order (by triangle), so that a display list is the same however its mesh
+ * was built, down to how shared edges are antialiased.
+ */
+function drawOrder(a: DisplayEntry, b: DisplayEntry): number {
+  if (a.layer !== b.layer) {
+    return a.layer - b.layer;
+  }
+  if (a.depth !== b.depth) {
+    return b.depth - a.depth;
+  }
+  if (a.t !== b.t) {
+    return a.t.tx - b.t.tx || a.t.ty - b.t.ty;
+  }
+  return a.side === b.side ? 0 : a.side === "left" ? -1 : 1;
+}
+
+function flatten(entries: DisplayEntry[]): DisplayList {
+  const list: DisplayList = [];
+  for (const entry of entries) {
+    list.push(...entry.items);
+  }
+  return list;
+}
+
+/**
+ * `buildDisplayList` turns a shaded `Mesh` into the polygons needed to draw it,
+ * ordered from back to front.
+ * It doesn't depend on any particular renderer; see `drawDisplayList` and
+ * `displayListToSVG`. With an `outline` style, the edges of the scene are
+ * drawn over it in ink.
+ */
+export function buildDisplayList(
+  mesh: Mesh<ShadedFace>,
+  rng: Random,
+  viewport: Viewport = DEFAULT_VIEWPORT,
+  outline?: OutlineStyle,
+): DisplayList {
+  return new IncrementalDisplayList(mesh, rng, viewport, outline).list;
+}
+
+/**
+ * An `IncrementalDisplayList` is the display list of a `Mesh` that changes a
+ * few triangles at a time: `update` rebuilds the items of just the changed
+ * triangles, and says which part of the screen has to be repainted.
+ */
+export class IncrementalDisplayList {
+  private entries: DisplayEntry[] = [];
+  private readonly byTriangle = {
+    left: new Map<TriPt, [DisplayEntry, DisplayEntry]>(),
+    right: new Map<TriPt, [DisplayEntry, DisplayEntry]>(),
+  };
+  private readonly bySlot = new Map<TriPt, DisplayEntry[]>();
+  private flattened: DisplayList | null = null;
+
+  constructor(
+    mesh: Mesh<ShadedFace>,
+    private readonly rng: Random,
+    private readonly viewport: Viewport = DEFAULT_VIEWPORT,
+    private readonly outline?: OutlineStyle,
+  ) {
+    const slots = new Set<TriPt>();
+    for (const side of ["left", "right"] as const) {
+      for (const [t, face] of mesh[side]) {
+        const entries = triangleEntries(t, side, face, rng, viewport);
+        this.byTriangle[side].set(t, entries);
+        this.entries.push(...entries);
+        outlineSlots(t, side).forEach(slot => slots.add(slot));
+      }
+    }
+    if (outline) {
+      for (const t of slots) {
+        const entries = slotEntries(mesh, t, outline, viewport);
+        this.bySlot.set(t, entries);
+        this.entries.push(...entries);
+      }
+    }
+    this.entries.sort(drawOrder);
+  }
+
+  /**
+   * `list` is the display list, in the same order `buildDisplayList` gives.
+   */
+  get list(): DisplayList {
+    if (!this.flattened) {
+      this.flattened = flatten(this.entries);
+    }
+    return this.flattened;
+  }
+
+  /**
+   * `update` redraws the given triangles as they are now in `mesh`.
+   * It returns the area covered by the items that were removed or added, or
+   * `null` if every triangle is drawn just as it was before.
+   */
+  update(
+    mesh: Mesh<ShadedFace>,
+    triangles: Iterable<[TriPt, "left" | "right"]>,
+  ): Rect | null {
+    const removed = new Set<DisplayEntry>();
+    const added: DisplayEntry[] = [];
+    const slots = new Set<TriPt>();
+    let changed: Rect | null = null;
+    // Entries are always replaced, but only the ones that look different
+    // need repainting.
+    const replace = (old: DisplayEntry[], entries: DisplayEntry[]) => {
+      old.forEach(entry => removed.add(entry));
+      added.push(...entries);
+      if (!sameEntries(old, entries)) {
+        for (const entry of [...old, ...entries]) {
+          changed = unionRect(changed, itemBounds(entry.items));
+        }
+      }
+    };
+    for (const [t, side] of triangles) {
+      outlineSlots(t, side).forEach(slot => slots.add(slot));
+      const old = this.byTriangle[side].get(t) || [];
+      this.byTriangle[side].delete(t);
+      const face = mesh.get(t, side);
+      if (face) {
+        const entries = triangleEntries(t, side, face, this.rng, this.viewport);
+        this.byTriangle[side].set(t, entries);
+        replace(old, entries);
+      } else {
+        replace(old, []);
+      }
+    }
+    if (this.outline) {
+      for (const t of slots) {
+        const entries = slotEntries(mesh, t, this.outline, this.viewport);
+        replace(this.bySlot.get(t) || [], entries);
+        this.bySlot.set(t, entries);
+      }
+    }
+
+    // Merge the new entries into the ones that are kept.
+    added.sort(drawOrder);
+    const entries: DisplayEntry[] = [];
+    let next = 0;
+    for (const entry of this.entries) {
+      if (removed.has(entry)) {
+        continue;
+      }
+      while (next < added.length && drawOrder(added[next], entry) < 0) {
+        entries.push(added[next++]);
+      }
+      entries.push(entry);
+    }
+    entries.push(...added.slice(next));
+    this.entries = entries;
+    this.flattened = null;
+    return changed;
+  }
+}
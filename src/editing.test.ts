@@ -0,0 +1,75 @@
+import { applyEdit, brushCells, pickFace } from "./editing";
+import { pt, pt3, TriPt, triangleCenter } from "./geometry";
+import { Random } from "./random";
+import { shadeScene } from "./shading";
+
+const gray = () => [0.5, 0.5, 0.5] as const;
+const flat = { top: gray, right: gray, left: gray };
+
+test("TriPt.containing finds the triangle around each triangle's center", () => {
+  for (let tx = -3; tx <= 3; tx++) {
+    for (let ty = -3; ty <= 3; ty++) {
+      for (const side of ["left", "right"] as const) {
+        const t = new TriPt(tx, ty);
+        expect(TriPt.containing(triangleCenter(t, side))).toEqual({ t, side });
+      }
+    }
+  }
+});
+
+test("pickFace finds the face of the cube under the point", () => {
+  const cube = pt3(2, 1, -1);
+  const mesh = shadeScene(new Set([cube]), flat, new Random(1));
+  const center = cube.tri().pt();
+
+  // Each face of a cube is drawn in one third of its hexagon.
+  expect(pickFace(mesh, center.shift(0, -10))).toEqual({ cube, face: "up" });
+  expect(pickFace(mesh, center.shift(10, 5))).toEqual({ cube, face: "right" });
+  expect(pickFace(mesh, center.shift(-10, 5))).toEqual({ cube, face: "left" });
+  expect(pickFace(mesh, pt(0, 0))).toBe(null);
+});
+
+test("adding places cubes against the clicked face", () => {
+  const cube = pt3(0, 0, 0);
+  const cubes = new Set([cube]);
+  expect(applyEdit(cubes, { cube, face: "up" }, "add", "single")).toEqual(
+    new Set([cube, pt3(0, 1, 0)]),
+  );
+  expect(applyEdit(cubes, { cube, face: "left" }, "add", "single")).toEqual(
+    new Set([cube, pt3(-1, 0, 0)]),
+  );
+  expect(applyEdit(cubes, { cube, face: "right" }, "add", "single")).toEqual(
+    new Set([cube, pt3(0, 0, 1)]),
+  );
+  expect(cubes.size).toBe(1);
+});
+
+test("removing takes away every cube under the brush", () => {
+  const cubes = new Set(brushCells(pt3(0, 0, 0), "up", "3x3"));
+  expect(cubes.size).toBe(9);
+  for (const cell of cubes) {
+    expect(cell.cy).toBe(0);
+  }
+  const target = { cube: pt3(1, 0, 1), face: "up" as const };
+  expect(applyEdit(cubes, target, "remove", "single").size).toBe(8);
+  expect(applyEdit(cubes, target, "remove", "3x3").size).toBe(5);
+});
+
+test("the 3x3 brush lies flat against side faces", () => {
+  for (const cell of brushCells(pt3(0, 0, 0), "left", "3x3")) {
+    expect(cell.cx).toBe(0);
+  }
+  for (const cell of brushCells(pt3(0, 0, 0), "right", "3x3")) {
+    expect(cell.cz).toBe(0);
+  }
+});
+
+test("the column brush goes straight up", () => {
+  expect(brushCells(pt3(1, 2, 3), "left", "column")).toEqual([
+    pt3(1, 2, 3),
+    pt3(1, 3, 3),
+    pt3(1, 4, 3),
+    pt3(1, 5, 3),
+    pt3(1, 6, 3),
+  ]);
+});
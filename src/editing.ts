@@ -0,0 +1,135 @@
+import { Rotation, toView, worldNormal } from "./camera";
+import { DEFAULT_VIEWPORT, P, Pt3, TriPt, Viewport } from "./geometry";
+import { cubeFace, Face, Mesh } from "./mesh";
+
+/**
+ * A `Brush` controls how many cubes a single click edits:
+ * - `"single"` edits one cube
+ * - `"3x3"` edits a 3x3 square lying flat against the clicked face
+ * - `"column"` edits a column 5 cubes tall, going up from the clicked cube
+ */
+export type Brush = "single" | "3x3" | "column";
+
+/**
+ * A `Tool` is what a click does: add cubes onto the clicked face, or remove
+ * the clicked cubes.
+ */
+export type Tool = "add" | "remove";
+
+/**
+ * A `Target` is a face of a cube in the scene, usually the one under the mouse.
+ * `cube` is in world space, but `face` is the side of the cube as it appears
+ * on screen.
+ */
+export type Target = { cube: Pt3; face: Face };
+
+/**
+ * `pickFace` finds which cube face is drawn at the screen point `p`, using the
+ * cube stored in each triangle of the mesh.
+ * It returns `null` if there is nothing drawn there.
+ */
+export function pickFace(
+  mesh: Mesh<Target>,
+  p: P,
+  viewport: Viewport = DEFAULT_VIEWPORT,
+): Target | null {
+  const { t, side } = TriPt.containing(p, viewport);
+  const hit = mesh.get(t, side);
+  if (!hit) {
+    return null;
+  }
+  return { cube: hit.cube, face: hit.face };
+}
+
+/**
+ * `brushCells` returns every cell that `brush` covers when it's centered on
+ * `center`, which was reached through `face` (seen with `rotation`).
+ */
+export function brushCells(
+  center: Pt3,
+  face: Face,
+  brush: Brush,
+  rotation: Rotation = 0,
+): Pt3[] {
+  switch (brush) {
+    case "single":
+      return [center];
+    case "3x3": {
+      const normal = worldNormal(face, rotation);
+      const cells: Pt3[] = [];
+      for (let a = -1; a <= 1; a++) {
+        for (let b = -1; b <= 1; b++) {
+          // Spread out along the two axes that the normal doesn't use.
+          const offset = [0, 0, 0];
+          const axes = [0, 1, 2].filter(axis => normal[axis] === 0);
+          offset[axes[0]] = a;
+          offset[axes[1]] = b;
+          cells.push(center.shift(offset[0], offset[1], offset[2]));
+        }
+      }
+      return cells;
+    }
+    case "column": {
+      const cells: Pt3[] = [];
+      for (let y = 0; y < 5; y++) {
+        cells.push(center.shift(0, y, 0));
+      }
+      return cells;
+    }
+  }
+}
+
+/**
+ * `editCells` returns the cells that clicking on `target` will change.
+ * Adding places cubes in front of the clicked face; removing takes away the
+ * clicked cube and its neighbors.
+ */
+export function editCells(
+  target: Target,
+  tool: Tool,
+  brush: Brush,
+  rotation: Rotation = 0,
+): Pt3[] {
+  const center =
+    tool === "add"
+      ? target.cube.shift(...worldNormal(target.face, rotation))
+      : target.cube;
+  return brushCells(center, target.face, brush, rotation);
+}
+
+/**
+ * `applyEdit` returns a copy of `cubes` with the edit applied.
+ */
+export function applyEdit(
+  cubes: Set<Pt3>,
+  target: Target,
+  tool: Tool,
+  brush: Brush,
+  rotation: Rotation = 0,
+): Set<Pt3> {
+  const edited = new Set(cubes);
+  for (const cell of editCells(target, tool, brush, rotation)) {
+    if (tool === "add") {
+      edited.add(cell);
+    } else {
+      edited.delete(cell);
+    }
+  }
+  return edited;
+}
+
+/**
+ * `highlightMesh` marks the triangles of the targeted face on every cube the
+ * brush covers, for drawing a hover highlight.
+ */
+export function highlightMesh(
+  target: Target,
+  brush: Brush,
+  rotation: Rotation = 0,
+): Mesh<true> {
+  const mesh = new Mesh<true>();
+  for (const cell of brushCells(target.cube, target.face, brush, rotation)) {
+    cubeFace(mesh, toView(cell, rotation).tri(), target.face, () => true);
+  }
+  return mesh;
+}
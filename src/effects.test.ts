@@ -0,0 +1,227 @@
+import { BlockName, blockNames } from "./blocks";
+import { RGB } from "./color";
+import { buildDisplayList, ShadedFace } from "./displayList";
+import { drawEffect, EffectTriangle, onFace, registerEffect } from "./effects";
+import { DEFAULT_VIEWPORT, P, Pt3, pt3, triangleCorners } from "./geometry";
+import { cubeDepth, Face, FacePair, Mesh } from "./mesh";
+import { Random } from "./random";
+import { shadeScene } from "./shading";
+import { box } from "./shapes";
+
+const grey: RGB = [0.5, 0.5, 0.5];
+const flat = { top: () => grey, right: () => grey, left: () => grey };
+
+/**
+ * `styledCube` stamps a single cube with the same style on every face.
+ */
+function styledCube(style: string): Mesh<ShadedFace> {
+  const mesh = new Mesh<ShadedFace>();
+  const cube = pt3(0, 0, 0);
+  const face = (f: Face): FacePair<Omit<ShadedFace, "depth">> => [
+    { cube, face: f, style, color: grey },
+    { cube, face: f, style, color: grey },
+  ];
+  cubeDepth(mesh, cube, {
+    top: face("up"),
+    right: face("right"),
+    left: face("left"),
+  });
+  return mesh;
+}
+
+/**
+ * `area` is the area of a polygon (shoelace formula).
+ */
+function area(polygon: P[]): number {
+  let sum = 0;
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    sum += p.x * q.y - q.x * p.y;
+  });
+  return Math.abs(sum) / 2;
+}
+
+test("registered effects are drawn over faces with their style", () => {
+  const red: RGB = [1, 0, 0];
+  registerEffect("test-dots", ({ face, corners }) =>
+    face.face === "up" ? [{ color: red, polygons: [corners] }] : [],
+  );
+  const list = buildDisplayList(styledCube("test-dots"), new Random(1));
+  const effects = list.filter(item => item.kind === "effect");
+  expect(effects).toHaveLength(2);
+  expect(effects.every(item => item.color === red)).toBe(true);
+
+  // Styles without an effect are drawn plain.
+  const plain = buildDisplayList(styledCube("unknown"), new Random(1));
+  expect(plain.filter(item => item.kind === "effect")).toHaveLength(0);
+});
+
+test("onFace clips shapes spanning a face to each of its triangles", () => {
+  const mesh = styledCube("stone");
+  const covered = { up: 0, left: 0, right: 0 };
+  const faceArea = { up: 0, left: 0, right: 0 };
+  for (const side of ["left", "right"] as const) {
+    for (const [t, face] of mesh[side]) {
+      const triangle = {
+        t,
+        side,
+        face,
+        corners: triangleCorners(t, side).map(c => c.pt()) as [P, P, P],
+        rng: new Random(1),
+      };
+      const whole = onFace(triangle, [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 1],
+          [0, 1],
+        ],
+      ]);
+      expect(whole).toHaveLength(1);
+      expect(area(whole[0])).toBeCloseTo(area(triangle.corners));
+      faceArea[face.face] += area(triangle.corners);
+
+      const bottom = onFace(triangle, [
+        [
+          [0, 0],
+          [1, 0],
+          [1, 0.5],
+          [0, 0.5],
+        ],
+      ]);
+      covered[face.face] += area(bottom[0]);
+      if (face.face !== "up") {
+        const lowest = Math.max(...triangle.corners.map(c => c.y));
+        const drawn = Math.max(...bottom[0].map(c => c.y));
+        expect(drawn).toBeCloseTo(lowest);
+      }
+    }
+  }
+  for (const face of ["up", "left", "right"] as const) {
+    expect(covered[face]).toBeCloseTo(faceArea[face] / 2);
+  }
+});
+
+test("both triangles of a window agree on whether it is lit", () => {
+  const cubes = new Set<ReturnType<typeof pt3>>();
+  for (let y = 0; y < 20; y++) {
+    cubes.add(pt3(0, y, 0));
+  }
+  const materials = new Map([...cubes].map(c => [c, "building" as const]));
+  const mesh = shadeScene(cubes, flat, new Random(2), { materials });
+  const lit = new Map<string, boolean[]>();
+  for (const side of ["left", "right"] as const) {
+    for (const [t, face] of mesh[side]) {
+      const layers = drawEffect(t, side, face, new Random(3), DEFAULT_VIEWPORT);
+      if (face.face === "up") {
+        expect(layers).toEqual([]);
+        continue;
+      }
+      const k = `${face.cube.cy};${face.face}`;
+      const isLit = layers[1].color[0] === 1;
+      lit.set(k, [...(lit.get(k) || []), isLit]);
+    }
+  }
+  const faces = [...lit.values()];
+  expect(faces).toHaveLength(40);
+  for (const [a, b] of faces) {
+    expect(a).toBe(b);
+  }
+  expect(faces.some(([a]) => a)).toBe(true);
+  expect(faces.some(([a]) => !a)).toBe(true);
+});
+
+test("built-in effects draw on the faces they are meant for", () => {
+  const drawsOn = (style: string) => {
+    const faces = new Set<string>();
+    const mesh = styledCube(style);
+    for (const side of ["left", "right"] as const) {
+      for (const [t, face] of mesh[side]) {
+        const layers = drawEffect(
+          t,
+          side,
+          face,
+          new Random(1),
+          DEFAULT_VIEWPORT,
+        );
+        if (layers.some(layer => layer.polygons.length > 0)) {
+          faces.add(face.face);
+        }
+      }
+    }
+    return [...faces].sort();
+  };
+  expect(drawsOn("grass")).toEqual(["left", "right", "up"]);
+  expect(drawsOn("brick")).toEqual(["left", "right", "up"]);
+  expect(drawsOn("windows")).toEqual(["left", "right"]);
+  expect(drawsOn("snow")).toEqual(["left", "right"]);
+  expect(drawsOn("water")).toEqual(["up"]);
+});
+
+test("effects on blocks stay inside their triangles", () => {
+  // Water everywhere, since it draws shapes over part of a face.
+  const cubes = box(0, 0, 0, 2 * blockNames.length, 0, 2).cubes();
+  const blocks = new Map<Pt3, BlockName>();
+  blockNames.forEach((block, i) => {
+    const cube = pt3(2 * i + 1, 1, 1);
+    cubes.add(cube);
+    blocks.set(cube, block);
+  });
+  const materials = new Map([...cubes].map(c => [c, "water" as const]));
+  for (const rotation of [0, 1, 2, 3] as const) {
+    const mesh = shadeScene(cubes, flat, new Random(2), {
+      rotation,
+      materials,
+      blocks,
+    });
+    // The triangles of each face of each block.
+    const slots = new Map<string, EffectTriangle[]>();
+    for (const side of ["left", "right"] as const) {
+      for (const [t, face] of mesh[side]) {
+        if (!blocks.has(face.cube)) {
+          continue;
+        }
+        const k = `${face.cube.cx};${face.slot || face.face}`;
+        slots.set(k, [
+          ...(slots.get(k) || []),
+          {
+            t,
+            side,
+            face,
+            corners: triangleCorners(t, side).map(c => c.pt()) as [P, P, P],
+            rng: new Random(1),
+          },
+        ]);
+      }
+    }
+    expect(
+      [...slots.values()].some(([first, second]) =>
+        second ? first.face.face !== second.face.face : false,
+      ),
+    ).toBe(true);
+    for (const triangles of slots.values()) {
+      // Every point of a face is drawn in just one of its triangles.
+      for (const u of [0.13, 0.37, 0.61, 0.87]) {
+        for (const v of [0.21, 0.52, 0.79]) {
+          const dot: [number, number][] = [
+            [u, v],
+            [u + 0.005, v],
+            [u, v + 0.005],
+          ];
+          const drawn = triangles.map(triangle => onFace(triangle, [dot]));
+          if (triangles.length === 2) {
+            expect(drawn.filter(polygons => polygons.length).length).toBe(1);
+          }
+          drawn.forEach((polygons, i) => {
+            const [a, b, c] = triangles[i].corners;
+            for (const p of polygons.flat()) {
+              expect(
+                area([a, b, p]) + area([b, c, p]) + area([c, a, p]),
+              ).toBeCloseTo(area([a, b, c]));
+            }
+          });
+        }
+      }
+    }
+  }
+});
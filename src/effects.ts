@@ -0,0 +1,352 @@
+import { RGB } from "./color";
+import { ShadedFace } from "./displayList";
+import {
+  P,
+  pt,
+  TriPt,
+  triangleCorner1,
+  triangleCorner2,
+  Viewport,
+} from "./geometry";
+import { Face } from "./mesh";
+import { Random } from "./random";
+
+/**
+ * An `EffectTriangle` is one triangle of the mesh that an effect is drawn on.
+ * `corners` are its screen corners: `t` itself, then `triangleCorner1` and
+ * `triangleCorner2`.
+ */
+export type EffectTriangle = {
+  t: TriPt;
+  side: "left" | "right";
+  face: ShadedFace;
+  corners: [P, P, P];
+  rng: Random;
+};
+
+/**
+ * An `EffectLayer` is a set of polygons an effect fills with one color.
+ */
+export type EffectLayer = { color: RGB; polygons: P[][] };
+
+/**
+ * An `Effect` draws the details of a face style over one triangle, as layers
+ * that are drawn in order on top of the triangle's fill.
+ */
+export type Effect = (triangle: EffectTriangle) => EffectLayer[];
+
+const registry = new Map<string, Effect>();
+
+/**
+ * `registerEffect` makes `effect` draw every face whose `style` is `style`,
+ * replacing any effect registered for it before.
+ */
+export function registerEffect(style: string, effect: Effect): void {
+  registry.set(style, effect);
+}
+
+/**
+ * `drawEffect` returns the layers drawn over a triangle of the mesh; faces
+ * whose style has no registered effect are left plain.
+ */
+export function drawEffect(
+  t: TriPt,
+  side: "left" | "right",
+  face: ShadedFace,
+  rng: Random,
+  viewport: Viewport,
+): EffectLayer[] {
+  const effect = registry.get(face.style);
+  if (!effect) {
+    return [];
+  }
+  const corners: [P, P, P] = [
+    t.pt(viewport),
+    triangleCorner1(t, side, viewport),
+    triangleCorner2(t, side, viewport),
+  ];
+  return effect({ t, side, face, corners, rng });
+}
+
+/**
+ * `FACE_UV` gives the position of each triangle's `corners` within the cube
+ * face it belongs to (see `cubeFace`), as `[u, v]` with both from 0 to 1.
+ * On the sides of cubes, `v` goes up the face; on top, `u` and `v` follow
+ * the face's two edges. Triangles that blocks show other faces through are
+ * placed by their `slot`, so that shapes stay whole across both triangles.
+ */
+const FACE_UV: Record<Face, Record<"left" | "right", [number, number][]>> = {
+  up: {
+    left: [
+      [0, 0],
+      [0, 1],
+      [1, 1],
+    ],
+    right: [
+      [0, 0],
+      [1, 1],
+      [1, 0],
+    ],
+  },
+  right: {
+    left: [
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ],
+    right: [
+      [0, 0],
+      [0, 1],
+      [1, 0],
+    ],
+  },
+  left: {
+    left: [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+    ],
+    right: [
+      [1, 0],
+      [1, 1],
+      [0, 1],
+    ],
+  },
+};
+
+/**
+ * `clipToEdge` keeps the part of a polygon on one side of the line through
+ * `a` and `b`: the left side if `sign` is positive, otherwise the right
+ * (Sutherland–Hodgman).
+ */
+function clipToEdge(
+  polygon: [number, number][],
+  a: [number, number],
+  b: [number, number],
+  sign: number,
+): [number, number][] {
+  const inside = ([u, v]: [number, number]) =>
+    sign * ((b[0] - a[0]) * (v - a[1]) - (b[1] - a[1]) * (u - a[0]));
+  const clipped: [number, number][] = [];
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    const [dp, dq] = [inside(p), inside(q)];
+    if (dp >= 0) {
+      clipped.push(p);
+    }
+    if ((dp < 0 && dq > 0) || (dp > 0 && dq < 0)) {
+      const r = dp / (dp - dq);
+      clipped.push([p[0] + (q[0] - p[0]) * r, p[1] + (q[1] - p[1]) * r]);
+    }
+  });
+  return clipped;
+}
+
+/**
+ * `onFace` draws polygons given in face coordinates (`[u, v]`, see
+ * `FACE_UV`) onto a triangle, clipping away the parts that fall on the other
+ * triangle of the face.
+ * This lets effects draw shapes that span the whole face, such as windows.
+ */
+export function onFace(
+  { side, face, corners }: EffectTriangle,
+  polygons: [number, number][][],
+): P[][] {
+  const uv = FACE_UV[face.slot || face.face][side];
+  const [a, b, c] = uv;
+  const area = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+  const toScreen = ([u, v]: [number, number]) => {
+    // Barycentric coordinates of the point within the triangle.
+    const wb = ((u - a[0]) * (c[1] - a[1]) - (v - a[1]) * (c[0] - a[0])) / area;
+    const wc = ((b[0] - a[0]) * (v - a[1]) - (b[1] - a[1]) * (u - a[0])) / area;
+    const wa = 1 - wb - wc;
+    return pt(
+      wa * corners[0].x + wb * corners[1].x + wc * corners[2].x,
+      wa * corners[0].y + wb * corners[1].y + wc * corners[2].y,
+    );
+  };
+  const clipped: P[][] = [];
+  for (const polygon of polygons) {
+    let inside = polygon;
+    for (let i = 0; i < 3 && inside.length; i++) {
+      inside = clipToEdge(inside, uv[i], uv[(i + 1) % 3], Math.sign(area));
+    }
+    if (inside.length >= 3) {
+      clipped.push(inside.map(toScreen));
+    }
+  }
+  return clipped;
+}
+
+/**
+ * `faceRandom` forks `rng` by the cube and face a triangle belongs to, so
+ * both triangles of a face draw the same random choices.
+ */
+function faceRandom({ face, rng }: EffectTriangle): Random {
+  const { cx, cy, cz } = face.cube;
+  const slot = face.slot || face.face;
+  return rng.fork(cx, cy, cz, ["up", "left", "right"].indexOf(slot));
+}
+
+/**
+ * `mix` moves `color` towards `target` by `amount`, from 0 to 1.
+ */
+function mix(color: RGB, target: RGB, amount: number): RGB {
+  return [
+    color[0] + (target[0] - color[0]) * amount,
+    color[1] + (target[1] - color[1]) * amount,
+    color[2] + (target[2] - color[2]) * amount,
+  ];
+}
+
+/**
+ * `rect` is a rectangle in face coordinates.
+ */
+function rect(u0: number, v0: number, u1: number, v1: number) {
+  return [
+    [u0, v0],
+    [u1, v0],
+    [u1, v1],
+    [u0, v1],
+  ] as [number, number][];
+}
+
+/**
+ * `grassBlades` returns the polygons for the grass drawn on top of a triangle.
+ * The blades are placed using a generator forked from `rng` by the triangle's
+ * position, so they don't depend on the order triangles are drawn in.
+ */
+function grassBlades({ t, side, corners, rng }: EffectTriangle): P[][] {
+  const [c3, c1, c2] = corners;
+
+  const onEdge1 = (r: number) => {
+    return pt(c1.x * r + c2.x * (1 - r), c1.y * r + c2.y * (1 - r));
+  };
+  const onEdge2 = (r: number) => {
+    if (side === "right") {
+      return pt(c2.x * r + c3.x * (1 - r), c2.y * r + c3.y * (1 - r));
+    } else {
+      return pt(c3.x * r + c1.x * (1 - r), c3.y * r + c1.y * (1 - r));
+    }
+  };
+
+  const blades = rng.fork(t.tx, t.ty, side === "left" ? 0 : 1);
+  const polygons: P[][] = [];
+  for (let i = 0; i < 12; i++) {
+    const onEdge = i % 2 === 0 ? onEdge1 : onEdge2;
+    const r = blades.next() * 0.8 + 0.1;
+    const edge1 = onEdge(r - 0.1);
+    const edge2 = onEdge(r + 0.1);
+    const edgeMid = onEdge(r);
+    const out = pt(-(edge2.y - edge1.y), edge2.x - edge1.x);
+    const edgeOut = pt(edgeMid.x + out.x * 0.5, edgeMid.y + out.y * 0.5);
+    polygons.push([
+      edge1.shift(-out.x * 0.2, -out.y * 0.2),
+      edge2.shift(-out.x * 0.2, -out.y * 0.2),
+      edgeOut,
+    ]);
+  }
+  return polygons;
+}
+
+registerEffect("grass", triangle => [
+  { color: triangle.face.color, polygons: grassBlades(triangle) },
+]);
+
+/**
+ * `brick` draws mortar between four courses of bricks, with the joints of
+ * each course offset from the one below.
+ */
+registerEffect("brick", triangle => {
+  const mortar: [number, number][][] = [];
+  for (let course = 0; course < 4; course++) {
+    const v = course / 4;
+    mortar.push(rect(0, v, 1, v + 0.03));
+    const joints = course % 2 ? [0.25, 0.75] : [0, 0.5, 1];
+    for (const u of joints) {
+      mortar.push(rect(u - 0.015, v, u + 0.015, v + 0.25));
+    }
+  }
+  return [
+    {
+      color: mix(triangle.face.color, [0.15, 0.12, 0.1], 0.45),
+      polygons: onFace(triangle, mortar),
+    },
+  ];
+});
+
+/**
+ * `windows` gives the sides of buildings a window each, some of which are
+ * lit from inside.
+ */
+registerEffect("windows", triangle => {
+  if (triangle.face.face === "up") {
+    return [];
+  }
+  const lit = faceRandom(triangle).next() < 0.4;
+  return [
+    {
+      color: mix(triangle.face.color, [0.1, 0.1, 0.12], 0.5),
+      polygons: onFace(triangle, [rect(0.25, 0.2, 0.75, 0.8)]),
+    },
+    {
+      color: lit
+        ? [1, 0.85, 0.45]
+        : mix(triangle.face.color, [0.1, 0.15, 0.25], 0.7),
+      polygons: onFace(triangle, [rect(0.3, 0.25, 0.7, 0.75)]),
+    },
+  ];
+});
+
+/**
+ * `snow` caps the sides of cubes with snow hanging down from their top
+ * edge, ragged along the bottom.
+ */
+registerEffect("snow", triangle => {
+  if (triangle.face.face === "up") {
+    return [];
+  }
+  const rng = faceRandom(triangle);
+  const cap: [number, number][] = [
+    [0, 1],
+    [1, 1],
+  ];
+  for (let i = 4; i >= 0; i--) {
+    cap.push([i / 4, 0.7 - rng.next() * 0.25]);
+  }
+  return [
+    {
+      color: mix(triangle.face.color, [0.95, 0.97, 1], 0.75),
+      polygons: onFace(triangle, [cap]),
+    },
+  ];
+});
+
+/**
+ * `water` draws a few thin highlights on the surface of water, as if caught
+ * by ripples.
+ */
+registerEffect("water", triangle => {
+  if (triangle.face.face !== "up") {
+    return [];
+  }
+  const rng = faceRandom(triangle);
+  const ripples: [number, number][][] = [];
+  for (let i = 0; i < 3; i++) {
+    const u = 0.1 + rng.next() * 0.5;
+    const v = 0.1 + rng.next() * 0.75;
+    const length = 0.2 + rng.next() * 0.2;
+    ripples.push([
+      [u, v],
+      [u + length / 2, v + 0.04],
+      [u + length, v],
+      [u + length / 2, v + 0.015],
+    ]);
+  }
+  return [
+    {
+      color: mix(triangle.face.color, [1, 1, 1], 0.35),
+      polygons: onFace(triangle, ripples),
+    },
+  ];
+});
@@ -0,0 +1,270 @@
+/**
+ * P is a 2D point with readonly x and y fields.
+ * By convention, positive x is to the right, and positive y is down.
+ */
+export class P {
+  constructor(public readonly x: number, public readonly y: number) {}
+
+  public args(): [number, number] {
+    return [this.x, this.y];
+  }
+
+  public shift(dx: number, dy: number): P {
+    return new P(this.x + dx, this.y + dy);
+  }
+}
+
+/**
+ * `pt` is a helper for creating `P` objects. It just invokes `P`'s constructor.
+ * @param x
+ * @param y
+ */
+export function pt(x: number, y: number): P {
+  return new P(x, y);
+}
+
+/**
+ * A `Viewport` decides where the triangle grid is drawn on screen.
+ * `scale` is the length of a triangle's side, and `(x, y)` is where the
+ * corner `TriPt(0, 0)` ends up, both in screen units.
+ */
+export class Viewport {
+  constructor(
+    public readonly scale: number,
+    public readonly x: number,
+    public readonly y: number,
+  ) {}
+
+  /**
+   * `project` converts (possibly fractional) triangle-grid coordinates into
+   * screen coordinates.
+   */
+  public project(tx: number, ty: number): P {
+    return pt(
+      this.x + this.scale * Math.cos(Math.PI / 6) * tx,
+      this.y - this.scale * ty - this.scale * Math.sin(Math.PI / 6) * tx,
+    );
+  }
+
+  /**
+   * `unproject` undoes `project`, returning fractional `[tx, ty]` coordinates.
+   */
+  public unproject(p: P): [number, number] {
+    const tx = (p.x - this.x) / (this.scale * Math.cos(Math.PI / 6));
+    const ty =
+      (this.y - p.y - this.scale * Math.sin(Math.PI / 6) * tx) / this.scale;
+    return [tx, ty];
+  }
+
+  /**
+   * `zoom` scales the view by `factor`, keeping the screen point `around`
+   * where it is (so zooming follows the mouse).
+   */
+  public zoom(factor: number, around: P): Viewport {
+    return new Viewport(
+      this.scale * factor,
+      around.x + (this.x - around.x) * factor,
+      around.y + (this.y - around.y) * factor,
+    );
+  }
+
+  /**
+   * `pan` moves everything on screen by `(dx, dy)`.
+   */
+  public pan(dx: number, dy: number): Viewport {
+    return new Viewport(this.scale, this.x + dx, this.y + dy);
+  }
+
+  /**
+   * `fit` returns the viewport that centers `corners` in a `width` by `height`
+   * screen, as large as possible while leaving a `margin` (a fraction of the
+   * screen) around the edges.
+   */
+  public static fit(
+    corners: Iterable<TriPt>,
+    width: number,
+    height: number,
+    margin = 0.05,
+  ): Viewport {
+    const unit = new Viewport(1, 0, 0);
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const corner of corners) {
+      const p = unit.project(corner.tx, corner.ty);
+      minX = Math.min(minX, p.x);
+      maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    }
+    if (minX > maxX) {
+      return DEFAULT_VIEWPORT;
+    }
+    const scale = Math.min(
+      (width * (1 - 2 * margin)) / Math.max(maxX - minX, 1),
+      (height * (1 - 2 * margin)) / Math.max(maxY - minY, 1),
+    );
+    return new Viewport(
+      scale,
+      width / 2 - (scale * (minX + maxX)) / 2,
+      height / 2 - (scale * (minY + maxY)) / 2,
+    );
+  }
+}
+
+/**
+ * `DEFAULT_VIEWPORT` fits a scene about 60 cubes across into an 800x800 area.
+ */
+export const DEFAULT_VIEWPORT = new Viewport(25, 400, 400);
+
+/**
+ * A `TriPt` is a corner in the triangle-grid.
+ * It's described with two coordinates, `tx` and `ty`.
+ * By convention, `ty` is up and `tx` is up-right.
+ *
+ * `TriPt` values can be correctly compared with `===` for equality.
+ * To accomplish this, all `TriPt` objects are stored in a global private cache.
+ *
+ * The `pt()` method converts the `TriPt` to the corresponding `P`, as seen
+ * through a `Viewport`.
+ */
+export class TriPt {
+  private static cache: Record<string, TriPt> = {};
+  constructor(public readonly tx: number, public readonly ty: number) {
+    // ty is vertical; tx is up-right
+    const k = `${tx};${ty}`;
+    if (k in TriPt.cache) {
+      return TriPt.cache[k];
+    }
+    TriPt.cache[k] = this;
+  }
+
+  public pt(viewport: Viewport = DEFAULT_VIEWPORT): P {
+    return viewport.project(this.tx, this.ty);
+  }
+  public shift(dx: number, dy: number): TriPt {
+    return new TriPt(this.tx + dx, this.ty + dy);
+  }
+
+  /**
+   * `containing(p)` undoes `pt()`: it finds the triangle that the point `p`
+   * falls in, identified the same way as in a `Mesh`.
+   */
+  public static containing(
+    p: P,
+    viewport: Viewport = DEFAULT_VIEWPORT,
+  ): { t: TriPt; side: "left" | "right" } {
+    const [tx, ty] = viewport.unproject(p);
+    const cornerX = Math.floor(tx);
+    const cornerY = Math.floor(ty);
+    if (tx - cornerX + (ty - cornerY) < 1) {
+      return { t: new TriPt(cornerX, cornerY), side: "right" };
+    }
+    return { t: new TriPt(cornerX + 1, cornerY), side: "left" };
+  }
+}
+
+/**
+ * A `Pt3` is an (integer) point in 3D space.
+ * Points can be correctly compared with `===`.
+ *
+ * `tri()` projects the `Pt3` into the corresponding `TriPt` (at its center).
+ * `depth()` returns a sortable "depth" value for the cube; nearer cubes have
+ * smaller depths.
+ */
+export class Pt3 {
+  private static cache: Record<string, Pt3> = {};
+  constructor(
+    public readonly cx: number,
+    public readonly cy: number,
+    public readonly cz: number,
+  ) {
+    const k = `${cx};${cy};${cz}`;
+    if (k in Pt3.cache) {
+      return Pt3.cache[k];
+    }
+    Pt3.cache[k] = this;
+  }
+
+  public tri(): TriPt {
+    return new TriPt(this.cx + this.cz, this.cy - this.cz);
+  }
+  /**
+   * Returns the distance of the point along the viewing direction `(1, -1, -1)`,
+   * which is exactly the direction that `tri()` flattens away.
+   *
+   * This orders cubes correctly wherever they are: two cubes that cover the
+   * same triangle are crossed by the same line of sight, and unit cubes whose
+   * depths differ by 3 or more can't overlap along it at all. That leaves a
+   * finite set of nearby offsets, which `mesh.test.ts` checks exhaustively.
+   * Depths are always integers, and cubes with equal depths never cover the
+   * same triangle.
+   */
+  public depth(): number {
+    return this.cx - this.cy - this.cz;
+  }
+  public shift(dx: number, dy: number, dz: number): Pt3 {
+    return new Pt3(this.cx + dx, this.cy + dy, this.cz + dz);
+  }
+}
+
+/**
+ * `pt3(...)` is an abbreviation for `new Pt3(...)`.
+ */
+export function pt3(cx: number, cy: number, cz: number): Pt3 {
+  return new Pt3(cx, cy, cz);
+}
+
+export function triangleCorner1(
+  t: TriPt,
+  side: "left" | "right",
+  viewport: Viewport = DEFAULT_VIEWPORT,
+): P {
+  if (side === "left") {
+    return t.shift(-1, 1).pt(viewport);
+  } else {
+    return t.shift(0, 1).pt(viewport);
+  }
+}
+export function triangleCorner2(
+  t: TriPt,
+  side: "left" | "right",
+  viewport: Viewport = DEFAULT_VIEWPORT,
+): P {
+  if (side === "left") {
+    return t.shift(0, 1).pt(viewport);
+  } else {
+    return t.shift(1, 0).pt(viewport);
+  }
+}
+
+export function triangleCenter(
+  t: TriPt,
+  side: "left" | "right",
+  viewport: Viewport = DEFAULT_VIEWPORT,
+): P {
+  if (side === "left") {
+    const c1 = t.pt(viewport);
+    const c2 = t.shift(-1, 1).pt(viewport);
+    const c3 = t.shift(0, 1).pt(viewport);
+    return pt((c1.x + c2.x + c3.x) / 3, (c1.y + c2.y + c3.y) / 3);
+  } else {
+    const c1 = t.pt(viewport);
+    const c2 = t.shift(0, 1).pt(viewport);
+    const c3 = t.shift(1, 0).pt(viewport);
+    return pt((c1.x + c2.x + c3.x) / 3, (c1.y + c2.y + c3.y) / 3);
+  }
+}
+
+/**
+ * `triangleCorners` returns the 3 corners of a triangle, starting from `t`.
+ * Left and right triangles are both wound the same way.
+ */
+export function triangleCorners(t: TriPt, side: "left" | "right"): TriPt[] {
+  if (side === "left") {
+    return [t, t.shift(-1, 1), t.shift(0, 1)];
+  } else {
+    return [t, t.shift(0, 1), t.shift(1, 0)];
+  }
+}
@@ -0,0 +1,153 @@
+import { encodeGIF, quantize } from "./gif";
+import { RGBAImage } from "./raster";
+import { Random } from "./random";
+
+/**
+ * `decodeGIF` reads back the frames written by `encodeGIF`, as `[r, g, b]`
+ * pixels, along with each frame's delay.
+ */
+function decodeGIF(gif: Uint8Array) {
+  const bytes = Buffer.from(gif);
+  expect(bytes.toString("ascii", 0, 6)).toBe("GIF89a");
+  const width = bytes.readUInt16LE(6);
+  const height = bytes.readUInt16LE(8);
+  const frames: { delay: number; pixels: number[][] }[] = [];
+  let delay = 0;
+  let loops = false;
+  let at = 13;
+  const readBlocks = () => {
+    const data: number[] = [];
+    while (bytes[at] !== 0) {
+      data.push(...bytes.slice(at + 1, at + 1 + bytes[at]));
+      at += 1 + bytes[at];
+    }
+    at++;
+    return data;
+  };
+  while (bytes[at] !== 0x3b) {
+    if (bytes[at] === 0x21) {
+      const label = bytes[at + 1];
+      at += 2;
+      const data = readBlocks();
+      if (label === 0xf9) {
+        delay = data[1] | (data[2] << 8);
+      } else if (label === 0xff) {
+        loops = true;
+      }
+      continue;
+    }
+    expect(bytes[at]).toBe(0x2c);
+    const size = 2 << (bytes[at + 9] & 7);
+    const table = bytes.slice(at + 10, at + 10 + 3 * size);
+    at += 10 + 3 * size;
+    const minCodeSize = bytes[at++];
+    const data = readBlocks();
+
+    // LZW, as in the GIF89a specification.
+    const clear = 1 << minCodeSize;
+    let codeSize = minCodeSize + 1;
+    let dictionary: number[][] = [];
+    const reset = () => {
+      dictionary = [...Array(clear + 2)].map((_, i) => [i]);
+      codeSize = minCodeSize + 1;
+    };
+    reset();
+    const indices: number[] = [];
+    let previous: number[] | null = null;
+    for (let bit = 0; ; ) {
+      let code = 0;
+      for (let i = 0; i < codeSize; i++, bit++) {
+        code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+      }
+      if (code === clear) {
+        reset();
+        previous = null;
+        continue;
+      }
+      if (code === clear + 1) {
+        break;
+      }
+      let entry: number[] = dictionary[code];
+      if (previous) {
+        if (!entry) {
+          entry = [...previous, previous[0]];
+        }
+        dictionary.push([...previous, entry[0]]);
+        if (dictionary.length === 1 << codeSize && codeSize < 12) {
+          codeSize++;
+        }
+      }
+      indices.push(...entry);
+      previous = entry;
+    }
+    expect(indices).toHaveLength(width * height);
+    frames.push({
+      delay,
+      pixels: indices.map(i => [...table.slice(3 * i, 3 * i + 3)]),
+    });
+  }
+  return { width, height, loops, frames };
+}
+
+function pixels(image: RGBAImage): number[][] {
+  const result: number[][] = [];
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      result.push(image.get(x, y).slice(0, 3));
+    }
+  }
+  return result;
+}
+
+test("GIFs with few colors decode to exactly the original frames", () => {
+  const frames = [0, 1, 2].map(k => {
+    const image = new RGBAImage(30, 20);
+    for (let y = 0; y < 20; y++) {
+      image.fillSpan(y, 0, 30, [0.1 * k, 0.5, 1]);
+      image.fillSpan(y, 5 + k, 12 + y, [1, (y % 3) / 2, 0]);
+    }
+    return image;
+  });
+  const gif = decodeGIF(encodeGIF(frames, 100));
+  expect(gif).toMatchObject({ width: 30, height: 20, loops: true });
+  expect(gif.frames).toHaveLength(3);
+  gif.frames.forEach((frame, i) => {
+    expect(frame.delay).toBe(10);
+    expect(frame.pixels).toEqual(pixels(frames[i]));
+  });
+});
+
+test("GIFs with many colors survive the LZW table filling up", () => {
+  const image = new RGBAImage(120, 90);
+  const rng = new Random(8);
+  for (let i = 0; i < image.data.length; i++) {
+    image.data[i] = i % 4 === 3 ? 255 : rng.between(0, 255);
+  }
+  const [frame] = decodeGIF(encodeGIF([image], 50)).frames;
+  const original = pixels(image);
+  // Every pixel is drawn in a color close to its own.
+  const error =
+    frame.pixels.reduce(
+      (sum, p, i) =>
+        sum + p.reduce((s, c, j) => s + Math.abs(c - original[i][j]), 0),
+      0,
+    ) /
+    (3 * original.length);
+  expect(error).toBeLessThan(24);
+});
+
+test("quantize keeps the colors of images with few of them", () => {
+  const image = new RGBAImage(4, 1);
+  image.fillSpan(0, 0, 2, [1, 0, 0]);
+  image.fillSpan(0, 2, 3, [0, 0, 1]);
+  image.fillSpan(0, 3, 4, [0, 1, 0]);
+  const { palette, indices } = quantize(image, 256);
+  expect(palette).toHaveLength(3);
+  expect([...indices].map(i => palette[i])).toEqual([
+    [255, 0, 0],
+    [255, 0, 0],
+    [0, 0, 255],
+    [0, 255, 0],
+  ]);
+  expect(quantize(image, 2).palette).toHaveLength(2);
+});
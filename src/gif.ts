@@ -0,0 +1,254 @@
+import { BitWriter } from "./png";
+import { RGBAImage } from "./raster";
+
+/**
+ * A `Box` is a group of colors being split by `quantize`, each a packed
+ * `0xrrggbb` with how many pixels have it. `channel` is the channel whose
+ * values vary the most within the box, and `range` by how much.
+ */
+type Box = {
+  colors: number[];
+  counts: number[];
+  channel: number;
+  range: number;
+};
+
+const channelOf = (color: number, c: number) => (color >>> (16 - 8 * c)) & 255;
+
+function makeBox(colors: number[], counts: number[]): Box {
+  const box = { colors, counts, channel: 0, range: -1 };
+  for (let c = 0; c < 3; c++) {
+    let [min, max] = [255, 0];
+    for (const color of colors) {
+      min = Math.min(min, channelOf(color, c));
+      max = Math.max(max, channelOf(color, c));
+    }
+    if (max - min > box.range) {
+      box.channel = c;
+      box.range = max - min;
+    }
+  }
+  return box;
+}
+
+/**
+ * `quantize` picks at most `maxColors` colors for an image by median cut:
+ * the group of colors that spans the widest range is split in half, by the
+ * number of pixels, until there are enough groups. Each group is then drawn
+ * in its average color.
+ * It returns the palette, and the index into it of every pixel.
+ */
+export function quantize(
+  image: RGBAImage,
+  maxColors: number,
+): { palette: [number, number, number][]; indices: Uint8Array } {
+  const histogram = new Map<number, number>();
+  const pixels = new Uint32Array(image.width * image.height);
+  for (let i = 0; i < pixels.length; i++) {
+    const color =
+      (image.data[4 * i] << 16) |
+      (image.data[4 * i + 1] << 8) |
+      image.data[4 * i + 2];
+    pixels[i] = color;
+    histogram.set(color, (histogram.get(color) || 0) + 1);
+  }
+
+  const boxes = [makeBox([...histogram.keys()], [...histogram.values()])];
+  while (boxes.length < maxColors) {
+    let split = 0;
+    boxes.forEach((box, i) => {
+      if (box.range > boxes[split].range) {
+        split = i;
+      }
+    });
+    const box = boxes[split];
+    if (box.range <= 0) {
+      break;
+    }
+    const order = box.colors
+      .map((_, i) => i)
+      .sort(
+        (a, b) =>
+          channelOf(box.colors[a], box.channel) -
+          channelOf(box.colors[b], box.channel),
+      );
+    // Split at the median pixel, but always leave a color on each side.
+    const total = box.counts.reduce((sum, n) => sum + n, 0);
+    let cut = 0;
+    for (let seen = 0; seen < total / 2; cut++) {
+      seen += box.counts[order[cut]];
+    }
+    cut = Math.min(Math.max(cut, 1), order.length - 1);
+    const half = (from: number, to: number) =>
+      makeBox(
+        order.slice(from, to).map(i => box.colors[i]),
+        order.slice(from, to).map(i => box.counts[i]),
+      );
+    boxes.splice(split, 1, half(0, cut), half(cut, order.length));
+  }
+
+  const indexOf = new Map<number, number>();
+  const palette = boxes.map((box, index) => {
+    const sum = [0, 0, 0];
+    let total = 0;
+    box.colors.forEach((color, i) => {
+      indexOf.set(color, index);
+      for (let c = 0; c < 3; c++) {
+        sum[c] += channelOf(color, c) * box.counts[i];
+      }
+      total += box.counts[i];
+    });
+    return sum.map(s => Math.round(s / total)) as [number, number, number];
+  });
+  const indices = new Uint8Array(pixels.length);
+  for (let i = 0; i < pixels.length; i++) {
+    indices[i] = indexOf.get(pixels[i])!;
+  }
+  return { palette, indices };
+}
+
+/**
+ * `lzw` compresses color indices with GIF's variant of LZW, whose codes
+ * start one bit wider than `minCodeSize` and grow up to 12 bits.
+ */
+function lzw(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const out = new BitWriter();
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  // Each sequence seen so far is keyed by the code of all but its last index,
+  // followed by that last index.
+  let codes = new Map<number, number>();
+
+  out.write(clear, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = codes.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    out.write(prefix, codeSize);
+    if (next === 4096) {
+      // The table is full, so start a new one.
+      out.write(clear, codeSize);
+      codes = new Map();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      if (next === 1 << codeSize) {
+        codeSize++;
+      }
+      codes.set(key, next++);
+    }
+    prefix = indices[i];
+  }
+  out.write(prefix, codeSize);
+  if (next === 1 << codeSize && codeSize < 12) {
+    codeSize++;
+  }
+  out.write(end, codeSize);
+  return out.finish();
+}
+
+function uint16(value: number): number[] {
+  return [value & 0xff, (value >>> 8) & 0xff];
+}
+
+/**
+ * `subBlocks` splits data into the length-prefixed blocks of up to 255 bytes
+ * that GIF stores it in.
+ */
+function subBlocks(data: Uint8Array): Uint8Array {
+  const blocks = new Uint8Array(data.length + Math.ceil(data.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < data.length; i += 255) {
+    const block = data.subarray(i, i + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0;
+  return blocks;
+}
+
+/**
+ * `encodeGIF` encodes images of the same size as an animated GIF that loops
+ * forever, showing each frame for `delay` milliseconds.
+ * Every frame gets its own palette of up to 256 colors.
+ */
+export function encodeGIF(frames: RGBAImage[], delay: number): Uint8Array {
+  if (frames.length === 0) {
+    throw new Error("an animation needs at least one frame");
+  }
+  const { width, height } = frames[0];
+  const parts: Uint8Array[] = [
+    new Uint8Array([
+      ...Array.from("GIF89a", c => c.charCodeAt(0)),
+      ...uint16(width),
+      ...uint16(height),
+      0, // no global color table
+      0, // background color
+      0, // square pixels
+    ]),
+    // The NETSCAPE2.0 extension makes the animation loop.
+    new Uint8Array([
+      0x21,
+      0xff,
+      11,
+      ...Array.from("NETSCAPE2.0", c => c.charCodeAt(0)),
+      3,
+      1,
+      ...uint16(0), // loop forever
+      0,
+    ]),
+  ];
+
+  for (const frame of frames) {
+    if (frame.width !== width || frame.height !== height) {
+      throw new Error("every frame of an animation must be the same size");
+    }
+    const { palette, indices } = quantize(frame, 256);
+    // Color tables hold a power of 2 colors, and at least 2.
+    let bits = 1;
+    while (1 << bits < palette.length) {
+      bits++;
+    }
+    const table = new Uint8Array(3 << bits);
+    palette.forEach((color, i) => table.set(color, 3 * i));
+    const minCodeSize = Math.max(2, bits);
+    parts.push(
+      new Uint8Array([
+        // Graphic control extension, for the frame's delay.
+        0x21,
+        0xf9,
+        4,
+        0,
+        ...uint16(Math.round(delay / 10)),
+        0,
+        0,
+        // Image descriptor, with a local color table.
+        0x2c,
+        ...uint16(0),
+        ...uint16(0),
+        ...uint16(width),
+        ...uint16(height),
+        0x80 | (bits - 1),
+      ]),
+      table,
+      new Uint8Array([minCodeSize]),
+      subBlocks(lzw(indices, minCodeSize)),
+    );
+  }
+  parts.push(new Uint8Array([0x3b]));
+
+  const gif = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    gif.set(part, offset);
+    offset += part.length;
+  }
+  return gif;
+}
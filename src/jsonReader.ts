@@ -0,0 +1,111 @@
+import { fromHex, RGB } from "./color";
+
+/**
+ * A `JsonReader` checks values as they are read out of a JSON file.
+ * Every problem is thrown as an `Error` that says what kind of file it is,
+ * where in the file the problem is, and what is wrong, such as
+ * `invalid scene file: view.scale should be a number`.
+ */
+export class JsonReader {
+  constructor(private readonly kind: string) {}
+
+  /**
+   * `invalid` reports a problem with the value found at `path`.
+   */
+  public invalid(path: string, problem: string): never {
+    throw new Error(`invalid ${this.kind}: ${path} ${problem}`);
+  }
+
+  /**
+   * `header` parses `text`, checking that it is marked as a `format` file
+   * with a version no newer than `latest`, and returns the parsed JSON along
+   * with its version.
+   */
+  public header(
+    text: string,
+    format: string,
+    latest: number,
+  ): { json: unknown; version: number } {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      return this.invalid("file", `is not JSON (${e.message})`);
+    }
+    if (this.field(json, "file", "format") !== format) {
+      return this.invalid("file", `is not a ${this.kind}`);
+    }
+    const version = this.integer(
+      this.field(json, "file", "version"),
+      "version",
+    );
+    if (version > latest) {
+      return this.invalid(
+        "version",
+        `is ${version}, but only versions up to ${latest} can be read; it was saved by a newer version of this app`,
+      );
+    }
+    if (version < 1) {
+      return this.invalid("version", `should be at least 1, not ${version}`);
+    }
+    return { json, version };
+  }
+
+  public field(value: unknown, path: string, key: string): unknown {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return this.invalid(path, "should be an object");
+    }
+    if (!(key in value)) {
+      return this.invalid(path, `is missing "${key}"`);
+    }
+    return (value as Record<string, unknown>)[key];
+  }
+
+  /**
+   * `optional` is like `field`, but returns `undefined` if `key` is missing.
+   */
+  public optional(value: unknown, path: string, key: string): unknown {
+    if (typeof value === "object" && value !== null && !(key in value)) {
+      return undefined;
+    }
+    return this.field(value, path, key);
+  }
+
+  public number(value: unknown, path: string): number {
+    if (typeof value !== "number" || !isFinite(value)) {
+      return this.invalid(path, "should be a number");
+    }
+    return value;
+  }
+
+  public integer(value: unknown, path: string): number {
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return this.invalid(path, "should be an integer");
+    }
+    return value;
+  }
+
+  public string(value: unknown, path: string): string {
+    if (typeof value !== "string") {
+      return this.invalid(path, "should be a string");
+    }
+    return value;
+  }
+
+  public array(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value)) {
+      return this.invalid(path, "should be an array");
+    }
+    return value;
+  }
+
+  /**
+   * `color` reads a color written as `"#rrggbb"` (see `toHex`).
+   */
+  public color(value: unknown, path: string): RGB {
+    if (typeof value !== "string" || !/^#[0-9a-f]{6}$/i.test(value)) {
+      return this.invalid(path, 'should be a color like "#a0b1c2"');
+    }
+    return fromHex(value);
+  }
+}
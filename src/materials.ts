@@ -0,0 +1,176 @@
+import { gradient, GradientStop, Surface } from "./color";
+import { ShadedFace } from "./displayList";
+
+/**
+ * A `FaceStyle` picks the surface effect drawn over a face.
+ */
+export type FaceStyle = ShadedFace["style"];
+
+/**
+ * A `Material` is what a cube is made of: the colors of its faces and the
+ * style of each face.
+ * Materials without a `surface` are colored by the selected palette.
+ */
+export type Material = {
+  surface?: Surface;
+  styles: { top: FaceStyle; right: FaceStyle; left: FaceStyle };
+};
+
+/**
+ * `gradients` builds a `Surface` from the stops of each side's gradient.
+ */
+function gradients(
+  top: GradientStop[],
+  right: GradientStop[],
+  left: GradientStop[],
+): Surface {
+  return { top: gradient(top), right: gradient(right), left: gradient(left) };
+}
+
+export type MaterialName =
+  | "ground"
+  | "stone"
+  | "sand"
+  | "water"
+  | "snow"
+  | "brick"
+  | "building";
+
+/**
+ * `materials` lists every material a cube can be made of. Cubes that haven't
+ * been given a material are made of `ground`.
+ */
+export const materials: Record<MaterialName, Material> = {
+  ground: {
+    styles: { top: "grass", right: "stone", left: "stone" },
+  },
+  stone: {
+    surface: gradients(
+      [
+        { at: 0, color: [0.45, 0.45, 0.48] },
+        { at: 1 / 3, color: [0.6, 0.6, 0.62] },
+        { at: 2 / 3, color: [0.75, 0.75, 0.78] },
+      ],
+      [
+        { at: 0, color: [0.5, 0.5, 0.55] },
+        { at: 1 / 3, color: [0.65, 0.65, 0.7] },
+        { at: 2 / 3, color: [0.75, 0.75, 0.8] },
+      ],
+      [
+        { at: 0, color: [0.32, 0.32, 0.36] },
+        { at: 0.5, color: [0.45, 0.45, 0.48] },
+      ],
+    ),
+    styles: { top: "stone", right: "stone", left: "stone" },
+  },
+  sand: {
+    surface: gradients(
+      [
+        { at: 0, color: [0.76, 0.62, 0.38] },
+        { at: 1 / 3, color: [0.93, 0.8, 0.55] },
+        { at: 2 / 3, color: [0.98, 0.9, 0.7] },
+      ],
+      [
+        { at: 0, color: [0.6, 0.5, 0.35] },
+        { at: 1 / 3, color: [0.75, 0.63, 0.45] },
+        { at: 2 / 3, color: [0.85, 0.72, 0.52] },
+      ],
+      [
+        { at: 0, color: [0.45, 0.37, 0.25] },
+        { at: 0.5, color: [0.6, 0.5, 0.35] },
+      ],
+    ),
+    styles: { top: "sand", right: "sand", left: "sand" },
+  },
+  water: {
+    surface: gradients(
+      [
+        { at: 0, color: [0.1, 0.3, 0.55] },
+        { at: 1 / 3, color: [0.15, 0.45, 0.7] },
+        { at: 2 / 3, color: [0.35, 0.65, 0.85] },
+      ],
+      [
+        { at: 0, color: [0.05, 0.2, 0.4] },
+        { at: 0.5, color: [0.1, 0.3, 0.55] },
+      ],
+      [
+        { at: 0, color: [0.03, 0.15, 0.3] },
+        { at: 0.5, color: [0.08, 0.25, 0.45] },
+      ],
+    ),
+    styles: { top: "water", right: "water", left: "water" },
+  },
+  snow: {
+    surface: gradients(
+      [
+        { at: 0, color: [0.75, 0.8, 0.9] },
+        { at: 1 / 3, color: [0.9, 0.93, 1] },
+        { at: 2 / 3, color: [1, 1, 1] },
+      ],
+      [
+        { at: 0, color: [0.45, 0.45, 0.5] },
+        { at: 1 / 3, color: [0.6, 0.6, 0.65] },
+        { at: 2 / 3, color: [0.7, 0.7, 0.75] },
+      ],
+      [
+        { at: 0, color: [0.3, 0.3, 0.35] },
+        { at: 0.5, color: [0.42, 0.42, 0.47] },
+      ],
+    ),
+    styles: { top: "snow", right: "snow", left: "snow" },
+  },
+  brick: {
+    surface: gradients(
+      [
+        { at: 0, color: [0.55, 0.3, 0.22] },
+        { at: 1 / 3, color: [0.7, 0.4, 0.3] },
+        { at: 2 / 3, color: [0.8, 0.5, 0.38] },
+      ],
+      [
+        { at: 0, color: [0.55, 0.28, 0.2] },
+        { at: 1 / 3, color: [0.7, 0.38, 0.28] },
+        { at: 2 / 3, color: [0.8, 0.46, 0.34] },
+      ],
+      [
+        { at: 0, color: [0.38, 0.2, 0.15] },
+        { at: 0.5, color: [0.52, 0.28, 0.2] },
+      ],
+    ),
+    styles: { top: "stone", right: "brick", left: "brick" },
+  },
+  building: {
+    surface: gradients(
+      [
+        { at: 0, color: [0.5, 0.5, 0.5] },
+        { at: 1 / 3, color: [0.62, 0.62, 0.6] },
+        { at: 2 / 3, color: [0.72, 0.72, 0.7] },
+      ],
+      [
+        { at: 0, color: [0.55, 0.53, 0.5] },
+        { at: 1 / 3, color: [0.7, 0.68, 0.64] },
+        { at: 2 / 3, color: [0.8, 0.78, 0.74] },
+      ],
+      [
+        { at: 0, color: [0.38, 0.37, 0.36] },
+        { at: 0.5, color: [0.5, 0.49, 0.47] },
+      ],
+    ),
+    styles: { top: "stone", right: "windows", left: "windows" },
+  },
+};
+
+/**
+ * `isMaterialName` says whether `name` is one of the `materials`, and not
+ * just a name every object has, like `toString`.
+ */
+export function isMaterialName(name: string): name is MaterialName {
+  return Object.prototype.hasOwnProperty.call(materials, name);
+}
+
+/**
+ * `materialSurface` returns the colors of a material, given the palette that
+ * materials without their own colors use.
+ */
+export function materialSurface(name: MaterialName, palette: Surface): Surface {
+  return materials[name].surface || palette;
+}
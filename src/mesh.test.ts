@@ -0,0 +1,196 @@
+import { pt3, Pt3, TriPt } from "./geometry";
+import { cubeDepth, Face, faceSources, faceTriangles, Mesh } from "./mesh";
+import { Random } from "./random";
+
+type Owner = { cube: Pt3; face: Face };
+
+/**
+ * `stamp` builds a `Mesh` recording which cube and face owns each triangle.
+ */
+function stamp(cubes: Iterable<Pt3>): Mesh<Owner & { depth: number }> {
+  const mesh = new Mesh<Owner & { depth: number }>();
+  for (const cube of cubes) {
+    const owner = (face: Face): [Owner, Owner] => [
+      { cube, face },
+      { cube, face },
+    ];
+    cubeDepth(mesh, cube, {
+      top: owner("up"),
+      right: owner("right"),
+      left: owner("left"),
+    });
+  }
+  return mesh;
+}
+
+/**
+ * `rayCast` finds the first cube hit by the line of sight through the center
+ * of a triangle, without using `Pt3.depth()` at all.
+ * The points that `tri()` projects onto `(u, v)` are `(u + s, v - s, -s)`,
+ * and the viewer is at `s = -Infinity`.
+ */
+function rayCast(
+  cubes: Iterable<Pt3>,
+  t: TriPt,
+  side: "left" | "right",
+): Owner | null {
+  const [u, v] =
+    side === "left"
+      ? [t.tx - 1 / 3, t.ty + 2 / 3]
+      : [t.tx + 1 / 3, t.ty + 1 / 3];
+  const origin = [u, v, 0];
+  const direction = [1, -1, -1];
+  const faces: Face[] = ["left", "up", "right"];
+  let best: Owner | null = null;
+  let bestEntry = Infinity;
+  for (const cube of cubes) {
+    const center = [cube.cx, cube.cy, cube.cz];
+    let entry = -Infinity;
+    let exit = Infinity;
+    let face: Face = "up";
+    for (let axis = 0; axis < 3; axis++) {
+      const a = (center[axis] - 0.5 - origin[axis]) / direction[axis];
+      const b = (center[axis] + 0.5 - origin[axis]) / direction[axis];
+      if (Math.min(a, b) > entry) {
+        entry = Math.min(a, b);
+        face = faces[axis];
+      }
+      exit = Math.min(exit, Math.max(a, b));
+    }
+    if (entry < exit && entry < bestEntry) {
+      bestEntry = entry;
+      best = { cube, face };
+    }
+  }
+  return best;
+}
+
+function expectRayCastOwners(cubes: Pt3[]) {
+  const mesh = stamp(cubes);
+  for (const side of ["left", "right"] as const) {
+    for (const [t, owner] of mesh[side]) {
+      const { cube, face } = owner;
+      expect({ t, side, cube, face }).toEqual({
+        t,
+        side,
+        ...rayCast(cubes, t, side),
+      });
+    }
+  }
+}
+
+test("every pair of nearby cubes is ordered like a ray cast", () => {
+  // Cubes whose depths differ by 3 or more can't overlap along a line of
+  // sight, so these offsets cover every case where the order matters.
+  for (let dx = -3; dx <= 3; dx++) {
+    for (let dy = -3; dy <= 3; dy++) {
+      for (let dz = -3; dz <= 3; dz++) {
+        if (dx || dy || dz) {
+          expectRayCastOwners([pt3(0, 0, 0), pt3(dx, dy, dz)]);
+        }
+      }
+    }
+  }
+});
+
+test("cubes at equal depths never share a triangle", () => {
+  const owners = new Mesh<Set<Pt3>>();
+  for (let dx = -3; dx <= 3; dx++) {
+    for (let dy = -3; dy <= 3; dy++) {
+      const cube = pt3(dx, dy, dx - dy);
+      expect(cube.depth()).toBe(0);
+      const faces = stamp([cube]);
+      for (const side of ["left", "right"] as const) {
+        for (const t of faces[side].keys()) {
+          owners.update(t, side, old => (old || new Set()).add(cube));
+        }
+      }
+    }
+  }
+  for (const side of ["left", "right"] as const) {
+    for (const cubes of owners[side].values()) {
+      expect(cubes.size).toBe(1);
+    }
+  }
+});
+
+test("cubes far from the origin are ordered like a ray cast", () => {
+  const far = pt3(5000, -3000, 7000);
+  const cubes: Pt3[] = [];
+  for (let dx = -2; dx <= 2; dx++) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dz = -2; dz <= 2; dz++) {
+        if ((dx + 2 * dy + 3 * dz) % 3 !== 0) {
+          cubes.push(far.shift(dx, dy, dz));
+        }
+      }
+    }
+  }
+  expectRayCastOwners(cubes);
+});
+
+test("distant cubes along one line of sight are ordered like a ray cast", () => {
+  // Each cube sits behind the previous one along the viewing direction,
+  // nudged sideways so that they only partly cover each other.
+  const cubes: Pt3[] = [];
+  const nudges: [number, number, number][] = [
+    [0, 0, 0],
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+    [-1, 0, 0],
+    [0, -1, 0],
+    [0, 0, -1],
+  ];
+  for (let k = 0; k < 40; k++) {
+    const [nx, ny, nz] = nudges[k % nudges.length];
+    cubes.push(pt3(k * 25 + nx, -k * 25 + ny, -k * 25 + nz));
+  }
+  expectRayCastOwners(cubes);
+  expectRayCastOwners([...cubes].reverse());
+});
+
+test("tall towers and overhangs are ordered like a ray cast", () => {
+  const cubes: Pt3[] = [];
+  for (let y = -50; y <= 50; y++) {
+    cubes.push(pt3(0, y, 0), pt3(3, y, -2));
+  }
+  for (let x = -20; x <= 20; x++) {
+    cubes.push(pt3(x, 40, 1), pt3(-2, -30, x));
+  }
+  expectRayCastOwners(cubes);
+});
+
+test("random scenes of every size are ordered like a ray cast", () => {
+  const rng = new Random(8);
+  for (const size of [2, 4, 8, 30, 200]) {
+    for (let trial = 0; trial < 10; trial++) {
+      const cubes = new Set<Pt3>();
+      for (let i = 0; i < 60; i++) {
+        cubes.add(
+          pt3(
+            rng.between(-size, size),
+            rng.between(-size, size),
+            rng.between(-size, size),
+          ),
+        );
+      }
+      expectRayCastOwners([...cubes]);
+    }
+  }
+});
+
+test("faceSources lists every face that covers a triangle", () => {
+  const c = new TriPt(2, -1);
+  for (const face of ["up", "left", "right"] as const) {
+    faceTriangles(c, face).forEach(([t, side], half) => {
+      expect(faceSources(t, side)).toContainEqual({ c, face, half });
+      for (const source of faceSources(t, side)) {
+        expect(faceTriangles(source.c, source.face)[source.half]).toEqual([
+          t,
+          side,
+        ]);
+      }
+    });
+  }
+});
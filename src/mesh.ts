@@ -0,0 +1,177 @@
+import { Pt3, TriPt } from "./geometry";
+
+/**
+ * A `Mesh` is a mapping from triangles to any value.
+ * Each triangle is either left- or right-facing and identified by its
+ * bottom corner.
+ */
+export class Mesh<T> {
+  right = new Map<TriPt, T>();
+  left = new Map<TriPt, T>();
+
+  /**
+   * `set` replaces the value stored at the given triangle.
+   */
+  set(t: TriPt, side: "left" | "right", color: T): void {
+    this[side].set(t, color);
+  }
+  /**
+   * `get` returns the value stored at the given triangle, or `null`
+   * if no value has been stored there yet.
+   */
+  get(t: TriPt, side: "left" | "right"): T | null {
+    if (!this[side].has(t)) {
+      return null;
+    }
+    return this[side].get(t)!;
+  }
+  /**
+   * `update` combines `get` and `set` by transforming the point by the
+   * provided `change` function.
+   * The function receives `null` if the triangle has not been given a
+   * value yet.
+   */
+  update(t: TriPt, side: "left" | "right", change: (old: T | null) => T): void {
+    this[side].set(t, change(this[side].has(t) ? this[side].get(t)! : null));
+  }
+
+  /**
+   * `map` copies the `Mesh`, transforming the value stored in each triangle.
+   */
+  map<R>(func: (value: T) => R): Mesh<R> {
+    const copy = new Mesh<R>();
+    for (const [t, v] of this.left) {
+      copy.left.set(t, func(v));
+    }
+    for (const [t, v] of this.right) {
+      copy.right.set(t, func(v));
+    }
+    return copy;
+  }
+}
+
+/**
+ * A `Face` is one of the 3 sides of a cube that can be seen.
+ */
+export type Face = "up" | "left" | "right";
+
+/**
+ * `faceNormal` returns the unit vector pointing out of a cube's face.
+ */
+export function faceNormal(face: Face): [number, number, number] {
+  switch (face) {
+    case "up":
+      return [0, 1, 0];
+    case "right":
+      return [0, 0, 1];
+    case "left":
+      return [-1, 0, 0];
+  }
+}
+
+/**
+ * `faceTriangles` lists the two triangles covered by one face of the cube
+ * whose `tri()` is `c`.
+ */
+export function faceTriangles(
+  c: TriPt,
+  face: Face,
+): [TriPt, "left" | "right"][] {
+  switch (face) {
+    case "up":
+      return [
+        [c, "right"],
+        [c, "left"],
+      ];
+    case "right":
+      return [
+        [c.shift(1, -1), "left"],
+        [c.shift(0, -1), "right"],
+      ];
+    case "left":
+      return [
+        [c.shift(0, -1), "left"],
+        [c.shift(-1, 0), "right"],
+      ];
+  }
+}
+
+/**
+ * `faceSources` undoes `faceTriangles`: it lists the faces that can cover the
+ * triangle `t`, each with the `tri()` of the cubes it could belong to and
+ * which of the face's two triangles `t` would be.
+ */
+export function faceSources(
+  t: TriPt,
+  side: "left" | "right",
+): { c: TriPt; face: Face; half: 0 | 1 }[] {
+  return side === "left"
+    ? [
+        { c: t, face: "up", half: 1 },
+        { c: t.shift(-1, 1), face: "right", half: 0 },
+        { c: t.shift(0, 1), face: "left", half: 0 },
+      ]
+    : [
+        { c: t, face: "up", half: 0 },
+        { c: t.shift(0, 1), face: "right", half: 1 },
+        { c: t.shift(1, 0), face: "left", half: 1 },
+      ];
+}
+
+/**
+ * `cubeFace` stores values for both triangles in one face of a unit cube.
+ * @param mesh
+ */
+export function cubeFace<T>(
+  mesh: Mesh<T>,
+  c: TriPt,
+  face: Face,
+  change: (old: T | null) => T,
+) {
+  for (const [t, side] of faceTriangles(c, face)) {
+    mesh.update(t, side, change);
+  }
+}
+
+export type Triplet<T> = {
+  top: T;
+  right: T;
+  left: T;
+};
+
+/**
+ * `FacePair` holds a value for each of the two triangles of one face, in the
+ * order that `faceTriangles` lists them.
+ */
+export type FacePair<T> = [T, T];
+
+/**
+ * `cubeDepth` stamps a cube onto the `Mesh` and stores depth information.
+ * The cube will not be stamped in front of nearer values, nor onto the
+ * triangles whose values are `null` (which blocks other than cubes leave
+ * empty).
+ * @param mesh
+ * @param p
+ * @param surface
+ */
+export function cubeDepth<F>(
+  mesh: Mesh<F & { depth: number }>,
+  p: Pt3,
+  surface: Triplet<FacePair<F | null>>,
+): void {
+  const faces = [
+    ["up", surface.top],
+    ["right", surface.right],
+    ["left", surface.left],
+  ] as const;
+  for (const [face, values] of faces) {
+    faceTriangles(p.tri(), face).forEach(([t, side], half) => {
+      const value = values[half];
+      if (value) {
+        mesh.update(t, side, old =>
+          !old || old.depth > p.depth() ? { depth: p.depth(), ...value } : old,
+        );
+      }
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { GradientNoise } from "./noise";
+import { Random } from "./random";
+
+test("noise depends only on the seed", () => {
+  const a = new GradientNoise(new Random(5));
+  const b = new GradientNoise(new Random(5));
+  const c = new GradientNoise(new Random(6));
+  const points = [...Array(50).keys()].map(i => [i * 0.37, i * -0.61]);
+  expect(points.map(([x, y]) => a.at(x, y))).toEqual(
+    points.map(([x, y]) => b.at(x, y)),
+  );
+  expect(points.map(([x, y]) => a.at(x, y))).not.toEqual(
+    points.map(([x, y]) => c.at(x, y)),
+  );
+});
+
+test("noise is smooth, bounded, and 0 on the lattice", () => {
+  const noise = new GradientNoise(new Random(1));
+  let largest = 0;
+  for (let x = -8; x < 8; x += 0.13) {
+    for (let y = -8; y < 8; y += 0.17) {
+      const v = noise.at(x, y);
+      largest = Math.max(largest, Math.abs(v));
+      expect(Math.abs(noise.at(x + 0.001, y) - v)).toBeLessThan(0.01);
+      expect(Math.abs(noise.at(x, y + 0.001) - v)).toBeLessThan(0.01);
+    }
+  }
+  expect(largest).toBeLessThanOrEqual(1);
+  expect(largest).toBeGreaterThan(0.5);
+  expect(noise.at(3, -7)).toBe(0);
+});
+
+test("fbm adds finer octaves and stays between -1 and 1", () => {
+  const noise = new GradientNoise(new Random(2));
+  expect(noise.fbm(0.3, 0.8, 1)).toBe(noise.at(0.3, 0.8));
+  for (let i = 0; i < 200; i++) {
+    const v = noise.fbm(i * 0.29, i * 0.11, 6);
+    expect(Math.abs(v)).toBeLessThanOrEqual(1);
+  }
+  expect(noise.fbm(0.3, 0.8, 4)).not.toBe(noise.fbm(0.3, 0.8, 1));
+  expect(noise.fbm(0.3, 0.8, 0)).toBe(0);
+});
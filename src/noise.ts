@@ -0,0 +1,92 @@
+import { Random } from "./random";
+
+/**
+ * `fade` is Perlin's smootherstep, which makes noise continuous in its first
+ * and second derivatives across lattice cells.
+ */
+function fade(t: number): number {
+  return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+/**
+ * `GRADIENTS` are the 8 unit directions that lattice points can slope in.
+ */
+const GRADIENTS = [0, 1, 2, 3, 4, 5, 6, 7].map(
+  k => [Math.cos((k * Math.PI) / 4), Math.sin((k * Math.PI) / 4)] as const,
+);
+
+/**
+ * A `GradientNoise` is seeded 2D Perlin noise: a smooth random function that
+ * is 0 at every integer lattice point and slopes away from each in a random
+ * direction.
+ * Two generators made from the same `Random` seed are identical.
+ */
+export class GradientNoise {
+  private readonly permutation: number[];
+
+  constructor(rng: Random) {
+    const shuffled = [...Array(256).keys()];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = rng.between(0, i);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    this.permutation = [...shuffled, ...shuffled];
+  }
+
+  /**
+   * `gradient` returns the dot product of the lattice point `(ix, iy)`'s
+   * gradient with the offset `(dx, dy)` from it.
+   */
+  private gradient(ix: number, iy: number, dx: number, dy: number): number {
+    const p = this.permutation;
+    const [gx, gy] = GRADIENTS[p[p[ix & 255] + (iy & 255)] & 7];
+    return gx * dx + gy * dy;
+  }
+
+  /**
+   * `at` returns the noise at `(x, y)`, between -1 and 1.
+   */
+  public at(x: number, y: number): number {
+    const ix = Math.floor(x);
+    const iy = Math.floor(y);
+    const [dx, dy] = [x - ix, y - iy];
+    const [u, v] = [fade(dx), fade(dy)];
+    const bottom =
+      this.gradient(ix, iy, dx, dy) * (1 - u) +
+      this.gradient(ix + 1, iy, dx - 1, dy) * u;
+    const top =
+      this.gradient(ix, iy + 1, dx, dy - 1) * (1 - u) +
+      this.gradient(ix + 1, iy + 1, dx - 1, dy - 1) * u;
+    // Unit gradients in 2D reach at most √½; scale that up to 1.
+    return (bottom * (1 - v) + top * v) * Math.SQRT2;
+  }
+
+  /**
+   * `fbm` sums `octaves` layers of noise (fractional Brownian motion): each
+   * layer has `lacunarity` times the frequency of the one before and `gain`
+   * times its amplitude, adding ever finer detail.
+   * The sum is scaled to stay between -1 and 1.
+   */
+  public fbm(
+    x: number,
+    y: number,
+    octaves: number,
+    lacunarity = 2,
+    gain = 0.5,
+  ): number {
+    let sum = 0;
+    let total = 0;
+    let frequency = 1;
+    let amplitude = 1;
+    for (let octave = 0; octave < octaves; octave++) {
+      // Each layer is shifted, so they aren't all 0 at the origin.
+      sum +=
+        amplitude *
+        this.at(x * frequency + octave * 31.7, y * frequency - octave * 17.3);
+      total += amplitude;
+      frequency *= lacunarity;
+      amplitude *= gain;
+    }
+    return total > 0 ? sum / total : 0;
+  }
+}
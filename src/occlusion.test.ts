@@ -0,0 +1,67 @@
+import { surfaceColors } from "./color";
+import { Pt3, pt3 } from "./geometry";
+import { faceOcclusion } from "./occlusion";
+import { Random } from "./random";
+import { shadeScene } from "./shading";
+import { box } from "./shapes";
+
+function occlusion(cubes: Set<Pt3>, cube: Pt3, face: "up" | "left" | "right") {
+  return faceOcclusion(
+    offset => cubes.has(cube.shift(offset.cx, offset.cy, offset.cz)),
+    face,
+  );
+}
+
+test("faces out in the open aren't occluded", () => {
+  const cube = pt3(0, 0, 0);
+  for (const face of ["up", "left", "right"] as const) {
+    expect(occlusion(new Set([cube]), cube, face)).toEqual([0, 0]);
+  }
+  // Cubes behind or beside a face don't shade it.
+  const ground = box(-2, -2, -2, 2, 0, 2).cubes();
+  expect(occlusion(ground, cube, "up")).toEqual([0, 0]);
+});
+
+test("inside corners are darker than the floor next to a wall", () => {
+  const floor = box(0, 0, 0, 4, 0, 4).cubes();
+  // A wall along the back of the floor, where x is 4.
+  const wall = box(0, 0, 0, 4, 0, 4).union(box(4, 1, 0, 4, 2, 4)).cubes();
+  const open = occlusion(floor, pt3(3, 0, 2), "up");
+  const byWall = occlusion(wall, pt3(3, 0, 2), "up");
+  expect(open).toEqual([0, 0]);
+  expect(Math.max(...byWall)).toBeGreaterThan(0);
+  // The two triangles of a face can be shaded differently.
+  expect(byWall[0]).not.toEqual(byWall[1]);
+
+  // With a second wall where z is 0, the corner gets darker still.
+  const corner = box(0, 0, 0, 4, 0, 4)
+    .union(box(4, 1, 0, 4, 2, 4))
+    .union(box(0, 1, 0, 4, 2, 0))
+    .cubes();
+  const inCorner = occlusion(corner, pt3(3, 0, 1), "up");
+  const [a, b] = occlusion(wall, pt3(3, 0, 1), "up");
+  expect(inCorner[0] + inCorner[1]).toBeGreaterThan(a + b);
+});
+
+test("occluded faces are shaded darker", () => {
+  const floor = box(0, 0, 0, 4, 0, 4).cubes();
+  // A wall on the floor, just behind (2, 0, 2).
+  const wall = new Set([...floor, pt3(3, 1, 1), pt3(3, 1, 2), pt3(3, 1, 3)]);
+  const surface = surfaceColors.desert_stone;
+  const lightness = (cubes: Set<Pt3>) => {
+    const mesh = shadeScene(cubes, surface, new Random(1));
+    return (["left", "right"] as const).map(side => {
+      const face = [...mesh[side].values()].find(
+        face => face.cube === pt3(2, 0, 2) && face.face === "up",
+      )!;
+      return face.color.reduce((sum, c) => sum + c, 0);
+    });
+  };
+  const [openLeft, openRight] = lightness(floor);
+  const [left, right] = lightness(wall);
+  expect(openLeft).toBe(openRight);
+  // The right triangle has two corners against the wall, and the left only
+  // one.
+  expect(right).toBeLessThan(left);
+  expect(left).toBeLessThan(openLeft);
+});
@@ -0,0 +1,79 @@
+import { pt3, Pt3, triangleCorners, TriPt } from "./geometry";
+import { Face, faceNormal, FacePair, faceTriangles } from "./mesh";
+
+/**
+ * A `Corner` of a face lists the cells next to it that can shade it: the two
+ * cells in front of the face along its edges, then the one diagonally in
+ * front of the corner, as offsets from the cube.
+ */
+type Corner = [Pt3, Pt3, Pt3];
+
+/**
+ * `faceCorners` lists, for each of the two triangles of `face` (in the order
+ * of `faceTriangles`), the 3 corners of the face that the triangle touches.
+ */
+function faceCorners(face: Face): FacePair<Corner[]> {
+  const n = faceNormal(face);
+  // The two directions along the face.
+  const [a, b] = [0, 1, 2]
+    .filter(axis => n[axis] === 0)
+    .map(axis => [0, 1, 2].map(i => (i === axis ? 1 : 0)));
+  const origin = new TriPt(0, 0);
+  const corners: { at: TriPt; corner: Corner }[] = [];
+  for (const sa of [-1, 1]) {
+    for (const sb of [-1, 1]) {
+      const [x, y, z] = [0, 1, 2].map(i => (n[i] + sa * a[i] + sb * b[i]) / 2);
+      const step = (i: number, da: number, db: number) =>
+        n[i] + da * a[i] + db * b[i];
+      const cell = (da: number, db: number) =>
+        pt3(step(0, da, db), step(1, da, db), step(2, da, db));
+      corners.push({
+        // Where the corner ends up once projected (see `Pt3.tri()`).
+        at: origin.shift(x + z, y - z),
+        corner: [cell(sa, 0), cell(0, sb), cell(sa, sb)],
+      });
+    }
+  }
+  const [first, second] = faceTriangles(origin, face).map(([t, side]) => {
+    const points = triangleCorners(t, side);
+    return corners
+      .filter(({ at }) => points.includes(at))
+      .map(({ corner }) => corner);
+  });
+  return [first, second];
+}
+
+const FACE_CORNERS: Record<Face, FacePair<Corner[]>> = {
+  up: faceCorners("up"),
+  left: faceCorners("left"),
+  right: faceCorners("right"),
+};
+
+/**
+ * `faceOcclusion` returns how much ambient light is blocked from each of the
+ * two triangles of one face of a cube by the cubes around it, from 0 (none)
+ * to 1. `occupied` says whether there is a cube at an offset from the cube,
+ * in view space; it is called with the same few offsets for every cube, so
+ * they can be looked up once.
+ *
+ * Each corner of the face is darkened by the cubes touching it from the
+ * front, fully so when it sits in an inside corner between two of them, and
+ * each triangle takes the average of its 3 corners. Concave corners and
+ * crevices end up darker than open ground.
+ */
+export function faceOcclusion(
+  occupied: (offset: Pt3) => boolean,
+  face: Face,
+): FacePair<number> {
+  const level = ([edge1, edge2, diagonal]: Corner) => {
+    const [s1, s2] = [occupied(edge1), occupied(edge2)];
+    if (s1 && s2) {
+      return 3;
+    }
+    return Number(s1) + Number(s2) + Number(occupied(diagonal));
+  };
+  const [first, second] = FACE_CORNERS[face].map(
+    corners => corners.reduce((sum, corner) => sum + level(corner), 0) / 9,
+  );
+  return [first, second];
+}
@@ -0,0 +1,87 @@
+import { surfaceColors } from "./color";
+import { buildDisplayList, IncrementalDisplayList } from "./displayList";
+import { DEFAULT_VIEWPORT, pt3, Pt3, Viewport } from "./geometry";
+import { DEFAULT_OUTLINE, edgeKind } from "./outlines";
+import { Random } from "./random";
+import { SceneModel } from "./sceneModel";
+import { renderScene } from "./shading";
+import { box } from "./shapes";
+
+const flat = {
+  top: () => [1, 0, 0] as const,
+  right: () => [0, 1, 0] as const,
+  left: () => [0, 0, 1] as const,
+};
+
+/**
+ * `outlines` renders `cubes` with outlines, and counts the lines of each kind
+ * (which `DEFAULT_OUTLINE` draws in different widths).
+ */
+function outlines(cubes: Set<Pt3>) {
+  const list = renderScene(cubes, flat, 1, { outline: DEFAULT_OUTLINE });
+  const lines = list
+    .filter(item => item.kind === "outline")
+    .flatMap(item => item.polygons);
+  const count = (width: number) =>
+    lines.filter(([a, , , d]) => {
+      const across = Math.hypot(a.x - d.x, a.y - d.y);
+      return Math.abs(across - width * DEFAULT_VIEWPORT.scale) < 1e-9;
+    }).length;
+  return {
+    list,
+    silhouettes: count(DEFAULT_OUTLINE.silhouette.width),
+    creases: count(DEFAULT_OUTLINE.crease.width),
+  };
+}
+
+test("edges are classified by depth and direction", () => {
+  const up = { depth: 0, face: "up" as const };
+  expect(edgeKind(up, null)).toBe("silhouette");
+  expect(edgeKind(null, null)).toBeNull();
+  expect(edgeKind(up, { depth: 1, face: "up" })).toBeNull();
+  expect(edgeKind(up, { depth: -1, face: "left" })).toBe("crease");
+  expect(edgeKind(up, { depth: 0, face: "right" })).toBe("crease");
+  expect(edgeKind(up, { depth: 2, face: "up" })).toBe("silhouette");
+  expect(edgeKind(up, { depth: -4, face: "left" })).toBe("silhouette");
+});
+
+test("a cube is outlined around its silhouette and along its edges", () => {
+  const { list, silhouettes, creases } = outlines(new Set([pt3(0, 0, 0)]));
+  expect(silhouettes).toBe(6);
+  expect(creases).toBe(3);
+  // Outlines are drawn over everything else.
+  const first = list.findIndex(item => item.kind === "outline");
+  expect(list.slice(first).every(item => item.kind === "outline")).toBe(true);
+});
+
+test("flat ground has no lines between its cubes", () => {
+  const ground = box(0, 0, 0, 3, 0, 3).cubes();
+  const { silhouettes, creases } = outlines(ground);
+  // The slab's outline is a hexagon with sides of 4, 4, 1, 4, 4 and 1.
+  expect(silhouettes).toBe(18);
+  // Its top meets each side along 4 edges, and the sides meet along 1.
+  expect(creases).toBe(9);
+});
+
+test("outlines follow edits to the scene", () => {
+  const rng = new Random(2);
+  const viewport = new Viewport(10, 100, 100);
+  const cubes = box(0, 0, 0, 5, 1, 5).cubes();
+  const model = new SceneModel(cubes, surfaceColors.blossoms, rng);
+  const display = new IncrementalDisplayList(
+    model.mesh,
+    rng,
+    viewport,
+    DEFAULT_OUTLINE,
+  );
+  for (const cube of [pt3(2, 2, 2), pt3(0, 1, 0), pt3(5, 2, 1)]) {
+    if (!model.delete(cube)) {
+      model.set(cube);
+    }
+    const changed = display.update(model.mesh, model.flush());
+    expect(changed).not.toBeNull();
+    expect(display.list).toEqual(
+      buildDisplayList(model.mesh, rng, viewport, DEFAULT_OUTLINE),
+    );
+  }
+});
@@ -0,0 +1,111 @@
+import { RGB } from "./color";
+import { P, pt, TriPt, Viewport } from "./geometry";
+import { Face, Mesh } from "./mesh";
+
+/**
+ * An `InkLine` is how one kind of outline is drawn: `width` is a fraction of
+ * a triangle's side, so lines keep their weight when zooming, and a width of
+ * 0 leaves that kind of line out.
+ */
+export type InkLine = { width: number; color: RGB };
+
+/**
+ * An `OutlineStyle` draws the edges of a scene in ink:
+ * - `silhouette` lines where the depth jumps between neighboring triangles,
+ *   so that one is in front of the other, or against empty space;
+ * - `crease` lines where two neighboring faces that touch point in different
+ *   directions, like the edges of a cube.
+ */
+export type OutlineStyle = { silhouette: InkLine; crease: InkLine };
+
+export const DEFAULT_OUTLINE: OutlineStyle = {
+  silhouette: { width: 0.08, color: [0.06, 0.05, 0.08] },
+  crease: { width: 0.035, color: [0.06, 0.05, 0.08] },
+};
+
+/**
+ * `edgeKind` says which line, if any, is drawn along the edge between two
+ * neighboring triangles, given what's stored there (or `null` for nothing).
+ *
+ * Neighbors on one flat surface belong to cubes that are next to each other,
+ * whose depths differ by at most 1; triangles that are further apart in
+ * depth aren't touching, so one is seen in front of the other.
+ */
+export function edgeKind(
+  a: { depth: number; face: Face } | null,
+  b: { depth: number; face: Face } | null,
+): "silhouette" | "crease" | null {
+  if (!a && !b) {
+    return null;
+  }
+  if (!a || !b || Math.abs(a.depth - b.depth) > 1) {
+    return "silhouette";
+  }
+  return a.face !== b.face ? "crease" : null;
+}
+
+/**
+ * `slotEdges` lists the 3 edges of the left triangle at `t`, each with the
+ * right triangle on its other side.
+ * Every edge in the grid is between one left and one right triangle, so each
+ * is listed for exactly one `t`.
+ */
+function slotEdges(t: TriPt): { right: TriPt; from: TriPt; to: TriPt }[] {
+  return [
+    { right: t, from: t, to: t.shift(0, 1) },
+    { right: t.shift(-1, 0), from: t, to: t.shift(-1, 1) },
+    { right: t.shift(-1, 1), from: t.shift(-1, 1), to: t.shift(0, 1) },
+  ];
+}
+
+/**
+ * `outlineSlots` returns the `t`s whose `outlineItems` can change when the
+ * triangle at `t` on `side` does.
+ */
+export function outlineSlots(t: TriPt, side: "left" | "right"): TriPt[] {
+  return side === "left" ? [t] : [t, t.shift(1, 0), t.shift(1, -1)];
+}
+
+/**
+ * `inkQuad` is a line of width `w` from `a` to `b`, as a polygon. Its ends
+ * reach past `a` and `b` by half the width, so lines meet without gaps.
+ */
+function inkQuad(a: P, b: P, w: number): P[] {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  const [dx, dy] = [((b.x - a.x) / length) * w, ((b.y - a.y) / length) * w];
+  return [
+    pt(a.x - dx / 2 - dy / 2, a.y - dy / 2 + dx / 2),
+    pt(b.x + dx / 2 - dy / 2, b.y + dy / 2 + dx / 2),
+    pt(b.x + dx / 2 + dy / 2, b.y + dy / 2 - dx / 2),
+    pt(a.x - dx / 2 + dy / 2, a.y - dy / 2 - dx / 2),
+  ];
+}
+
+/**
+ * `outlineItems` returns the polygons of the lines along the edges of the left
+ * triangle at `t` (see `slotEdges`), grouped by kind, creases first.
+ */
+export function outlineItems(
+  mesh: Mesh<{ depth: number; face: Face }>,
+  t: TriPt,
+  style: OutlineStyle,
+  viewport: Viewport,
+): { kind: "silhouette" | "crease"; color: RGB; polygons: P[][] }[] {
+  const lines = { silhouette: [] as P[][], crease: [] as P[][] };
+  const left = mesh.get(t, "left");
+  for (const { right, from, to } of slotEdges(t)) {
+    const kind = edgeKind(left, mesh.get(right, "right"));
+    if (kind && style[kind].width > 0) {
+      lines[kind].push(
+        inkQuad(
+          from.pt(viewport),
+          to.pt(viewport),
+          style[kind].width * viewport.scale,
+        ),
+      );
+    }
+  }
+  return (["crease", "silhouette"] as const)
+    .filter(kind => lines[kind].length > 0)
+    .map(kind => ({ kind, color: style[kind].color, polygons: lines[kind] }));
+}
@@ -0,0 +1,52 @@
+import { inflateSync } from "zlib";
+import { encodePNG } from "./png";
+import { RGBAImage } from "./raster";
+import { Random } from "./random";
+
+/**
+ * `readChunks` splits a PNG file into its chunks, checking the signature.
+ */
+function readChunks(png: Uint8Array) {
+  const buffer = Buffer.from(png);
+  expect(buffer.slice(0, 8).toString("binary")).toBe("\x89PNG\r\n\x1a\n");
+  const chunks: { type: string; data: Buffer }[] = [];
+  for (let offset = 8; offset < buffer.length; ) {
+    const length = buffer.readUInt32BE(offset);
+    chunks.push({
+      type: buffer.toString("ascii", offset + 4, offset + 8),
+      data: buffer.slice(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+test("encodePNG writes a header, image data and end chunk", () => {
+  const chunks = readChunks(encodePNG(new RGBAImage(3, 2)));
+  expect(chunks.map(c => c.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+  expect(chunks[0].data.readUInt32BE(0)).toBe(3);
+  expect(chunks[0].data.readUInt32BE(4)).toBe(2);
+  expect([...chunks[0].data.slice(8)]).toEqual([8, 6, 0, 0, 0]);
+});
+
+test("encodePNG image data inflates back to the original pixels", () => {
+  const image = new RGBAImage(40, 30);
+  const rng = new Random(5);
+  // Mix long flat runs (which compress) with noise (which doesn't).
+  image.fillSpan(3, 0, 40, [0.2, 0.4, 0.6]);
+  image.fillSpan(4, 5, 35, [1, 1, 1]);
+  for (let i = 4 * 40 * 10; i < image.data.length; i++) {
+    image.data[i] = rng.between(0, 3) * 80;
+  }
+
+  const idat = readChunks(encodePNG(image)).find(c => c.type === "IDAT")!;
+  const scanlines = inflateSync(idat.data);
+  expect(scanlines.length).toBe(30 * (40 * 4 + 1));
+  for (let y = 0; y < 30; y++) {
+    const row = scanlines.slice(y * 161, (y + 1) * 161);
+    expect(row[0]).toBe(0);
+    expect([...row.slice(1)]).toEqual([
+      ...image.data.slice(y * 160, (y + 1) * 160),
+    ]);
+  }
+});
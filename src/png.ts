@@ -0,0 +1,297 @@
+import { RGBAImage } from "./raster";
+
+/**
+ * `BitWriter` packs values into bytes least-significant bit first, which is
+ * the order DEFLATE (and GIF's LZW) uses.
+ */
+export class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private length = 0;
+  private current = 0;
+  private used = 0;
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  /**
+   * `write` appends the low `count` bits of `value`.
+   */
+  public write(value: number, count: number) {
+    for (let i = 0; i < count; i++) {
+      this.current |= ((value >>> i) & 1) << this.used;
+      this.used++;
+      if (this.used === 8) {
+        this.pushByte(this.current);
+        this.current = 0;
+        this.used = 0;
+      }
+    }
+  }
+
+  /**
+   * `writeCode` appends a Huffman code, which DEFLATE stores starting from
+   * its most-significant bit.
+   */
+  public writeCode(code: number, length: number) {
+    for (let i = length - 1; i >= 0; i--) {
+      this.write((code >>> i) & 1, 1);
+    }
+  }
+
+  /**
+   * `finish` pads the last byte with zeros and returns everything written.
+   */
+  public finish(): Uint8Array {
+    if (this.used > 0) {
+      this.pushByte(this.current);
+      this.current = 0;
+      this.used = 0;
+    }
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * `codeTable` builds the base values and extra bit counts for DEFLATE's
+ * length or distance codes, where each code covers `2 ** extra(code)` values.
+ */
+function codeTable(
+  count: number,
+  first: number,
+  extra: (code: number) => number,
+): { base: number[]; extra: number[] } {
+  const table = { base: [first], extra: [] as number[] };
+  for (let code = 0; code < count; code++) {
+    table.extra.push(extra(code));
+    table.base.push(table.base[code] + (1 << table.extra[code]));
+  }
+  table.base.pop();
+  return table;
+}
+
+const LENGTHS = codeTable(29, 3, code =>
+  code < 8 || code === 28 ? 0 : Math.floor(code / 4) - 1,
+);
+// The last length code is special: it only covers a length of 258.
+LENGTHS.base[28] = 258;
+const DISTANCES = codeTable(30, 1, code =>
+  code < 4 ? 0 : Math.floor(code / 2) - 1,
+);
+
+/**
+ * `writeSymbol` writes a literal/length symbol with the fixed Huffman code
+ * from RFC 1951, section 3.2.6.
+ */
+function writeSymbol(out: BitWriter, symbol: number) {
+  if (symbol <= 143) {
+    out.writeCode(0x30 + symbol, 8);
+  } else if (symbol <= 255) {
+    out.writeCode(0x190 + symbol - 144, 9);
+  } else if (symbol <= 279) {
+    out.writeCode(symbol - 256, 7);
+  } else {
+    out.writeCode(0xc0 + symbol - 280, 8);
+  }
+}
+
+/**
+ * `findCode` returns the index of the last `base` that is at most `value`.
+ */
+function findCode(base: number[], value: number): number {
+  let code = 0;
+  while (code + 1 < base.length && base[code + 1] <= value) {
+    code++;
+  }
+  return code;
+}
+
+/**
+ * `deflate` compresses `data` into a single fixed-Huffman DEFLATE block,
+ * finding repeated runs with a small hash chain.
+ * It doesn't compress as well as zlib, but rendered scenes are mostly flat
+ * color, which it handles well.
+ */
+function deflate(data: Uint8Array): Uint8Array {
+  const WINDOW = 32768;
+  const MAX_CHAIN = 16;
+  const hash = (i: number) =>
+    ((data[i] << 10) ^ (data[i + 1] << 5) ^ data[i + 2]) & 0x7fff;
+  const head = new Int32Array(0x8000).fill(-1);
+  const previous = new Int32Array(data.length).fill(-1);
+  const insert = (i: number) => {
+    if (i + 2 < data.length) {
+      const h = hash(i);
+      previous[i] = head[h];
+      head[h] = i;
+    }
+  };
+
+  const out = new BitWriter();
+  out.write(1, 1); // BFINAL
+  out.write(1, 2); // BTYPE = fixed Huffman codes
+
+  let i = 0;
+  while (i < data.length) {
+    let bestLength = 0;
+    let bestDistance = 0;
+    if (i + 2 < data.length) {
+      let candidate = head[hash(i)];
+      for (
+        let chain = 0;
+        chain < MAX_CHAIN && candidate >= 0 && i - candidate <= WINDOW;
+        chain++
+      ) {
+        let length = 0;
+        while (
+          length < 258 &&
+          i + length < data.length &&
+          data[candidate + length] === data[i + length]
+        ) {
+          length++;
+        }
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = i - candidate;
+        }
+        candidate = previous[candidate];
+      }
+    }
+
+    if (bestLength >= 3) {
+      const lengthCode = findCode(LENGTHS.base, bestLength);
+      writeSymbol(out, 257 + lengthCode);
+      out.write(
+        bestLength - LENGTHS.base[lengthCode],
+        LENGTHS.extra[lengthCode],
+      );
+      const distanceCode = findCode(DISTANCES.base, bestDistance);
+      out.writeCode(distanceCode, 5);
+      out.write(
+        bestDistance - DISTANCES.base[distanceCode],
+        DISTANCES.extra[distanceCode],
+      );
+      for (let k = 0; k < bestLength; k++) {
+        insert(i + k);
+      }
+      i += bestLength;
+    } else {
+      writeSymbol(out, data[i]);
+      insert(i);
+      i++;
+    }
+  }
+  writeSymbol(out, 256); // end of block
+  return out.finish();
+}
+
+/**
+ * `adler32` is the checksum zlib streams end with.
+ */
+function adler32(data: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < data.length; i++) {
+    a = (a + data[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * `crc32` is the checksum every PNG chunk ends with.
+ */
+export function crc32(data: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function uint32(value: number): number[] {
+  return [
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+/**
+ * `chunk` builds a PNG chunk: length, type, data and CRC.
+ */
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const body = new Uint8Array(4 + data.length);
+  for (let i = 0; i < 4; i++) {
+    body[i] = type.charCodeAt(i);
+  }
+  body.set(data, 4);
+  const result = new Uint8Array(8 + data.length + 4);
+  result.set(uint32(data.length), 0);
+  result.set(body, 4);
+  result.set(uint32(crc32(body)), 8 + data.length);
+  return result;
+}
+
+/**
+ * `encodePNG` encodes an image as an 8-bit RGBA PNG file.
+ */
+export function encodePNG(image: RGBAImage): Uint8Array {
+  const header = new Uint8Array([
+    ...uint32(image.width),
+    ...uint32(image.height),
+    8, // bit depth
+    6, // color type: RGBA
+    0, // compression: DEFLATE
+    0, // filter method
+    0, // no interlacing
+  ]);
+
+  // Every scanline is prefixed by its filter type; 0 leaves it unfiltered.
+  const rowLength = image.width * 4;
+  const scanlines = new Uint8Array(image.height * (rowLength + 1));
+  for (let y = 0; y < image.height; y++) {
+    scanlines.set(
+      image.data.subarray(y * rowLength, (y + 1) * rowLength),
+      y * (rowLength + 1) + 1,
+    );
+  }
+  const compressed = deflate(scanlines);
+  const zlib = new Uint8Array(2 + compressed.length + 4);
+  zlib.set([0x78, 0x01], 0);
+  zlib.set(compressed, 2);
+  zlib.set(uint32(adler32(scanlines)), 2 + compressed.length);
+
+  const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  const parts = [
+    new Uint8Array(signature),
+    chunk("IHDR", header),
+    chunk("IDAT", zlib),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
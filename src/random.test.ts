@@ -0,0 +1,35 @@
+import { Random } from "./random";
+
+/**
+ * `draw` takes the next `n` numbers from `rng`.
+ */
+function draw(rng: Random, n = 20): number[] {
+  return [...Array(n)].map(() => rng.next());
+}
+
+test("the same seed always gives the same numbers", () => {
+  expect(draw(new Random(42))).toEqual(draw(new Random(42)));
+  expect(draw(new Random(42))).not.toEqual(draw(new Random(43)));
+  for (const n of draw(new Random(7), 1000)) {
+    expect(n >= 0 && n < 1).toBe(true);
+  }
+});
+
+test("forks don't depend on the order they are made in", () => {
+  const rng = new Random(9);
+  const first = draw(rng.fork(1, 2));
+  const second = draw(rng.fork(3, 4));
+
+  // Forking in the other order, or after drawing from the parent, gives the
+  // same numbers, and forking doesn't change the parent's numbers.
+  const other = new Random(9);
+  draw(other, 5);
+  expect(draw(other.fork(3, 4))).toEqual(second);
+  expect(draw(other.fork(1, 2))).toEqual(first);
+  expect(draw(other, 5)).toEqual(draw(new Random(9), 10).slice(5));
+
+  // Different keys, key orders and seeds give different numbers.
+  expect(first).not.toEqual(second);
+  expect(draw(rng.fork(2, 1))).not.toEqual(first);
+  expect(draw(new Random(10).fork(1, 2))).not.toEqual(first);
+});
@@ -0,0 +1,56 @@
+/**
+ * A `Random` is a seedable pseudo-random number generator (mulberry32).
+ * Two generators constructed with the same seed produce the same sequence,
+ * so everything random in a scene should be drawn from one of these instead
+ * of `Math.random()`.
+ */
+export class Random {
+  private state: number;
+  constructor(public readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * `next` returns a number in the range [0, 1), like `Math.random()`.
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * `between(lo, hi)` returns an integer in the inclusive range `[lo, hi]`.
+   */
+  public between(lo: number, hi: number): number {
+    const range = hi - lo + 1;
+    return Math.floor(this.next() * range) + lo;
+  }
+
+  /**
+   * `choose` returns a uniformly-chosen item from `options`.
+   */
+  public choose<T>(options: Iterable<T>): T {
+    const list = [...options];
+    return list[Math.floor(this.next() * list.length)];
+  }
+
+  /**
+   * `fork(...keys)` derives a new generator from this one's seed and the
+   * given integer keys, without advancing this generator.
+   * Forking by position (e.g. a cube's coordinates) means the values drawn
+   * for that position don't depend on the order things are visited in.
+   */
+  public fork(...keys: number[]): Random {
+    let h = this.seed >>> 0;
+    for (const key of keys) {
+      h = Math.imul(h ^ (key | 0), 0x85ebca6b);
+      h ^= h >>> 13;
+      h = Math.imul(h, 0xc2b2ae35);
+      h ^= h >>> 16;
+    }
+    return new Random(h);
+  }
+}
@@ -0,0 +1,128 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BlockName, blockNames } from "./blocks";
+import { fitScene } from "./camera";
+import { surfaceColors } from "./color";
+import { DisplayList } from "./displayList";
+import { pt, Pt3, pt3 } from "./geometry";
+import { MaterialName } from "./materials";
+import { encodePNG } from "./png";
+import { fillPolygon, rasterizeDisplayList, RGBAImage } from "./raster";
+import { Random } from "./random";
+import { DEFAULT_TERRAIN, scenes, terrain } from "./scenes";
+import { renderScene } from "./shading";
+import { box } from "./shapes";
+
+/**
+ * `coverage` counts how many times each pixel is painted when the polygons
+ * are filled one after the other (by reading back a counter from red).
+ */
+function coverage(width: number, height: number, polygons: number[][][]) {
+  const counts = new Array(width * height).fill(0);
+  for (const polygon of polygons) {
+    const image = new RGBAImage(width, height);
+    fillPolygon(
+      image,
+      polygon.map(([x, y]) => pt(x, y)),
+      [1, 1, 1],
+      1,
+    );
+    for (let i = 0; i < counts.length; i++) {
+      counts[i] += image.data[4 * i + 3] ? 1 : 0;
+    }
+  }
+  return counts;
+}
+
+test("fillPolygon fills the pixels whose centers are inside", () => {
+  const counts = coverage(6, 6, [
+    [
+      [1, 1],
+      [4, 1],
+      [4, 3],
+      [1, 3],
+    ],
+  ]);
+  const expected = new Array(36).fill(0);
+  for (const y of [1, 2]) {
+    for (const x of [1, 2, 3]) {
+      expected[y * 6 + x] = 1;
+    }
+  }
+  expect(counts).toEqual(expected);
+});
+
+test("fillPolygon covers triangles that share an edge exactly once", () => {
+  const counts = coverage(20, 20, [
+    [
+      [0.3, 0.7],
+      [19.2, 2.4],
+      [7.7, 19.9],
+    ],
+    [
+      [19.2, 2.4],
+      [20, 20],
+      [7.7, 19.9],
+    ],
+  ]);
+  expect(counts.every(count => count <= 1)).toBe(true);
+});
+
+/**
+ * Golden images live in `src/__golden__`. When a rendering change is
+ * intentional, regenerate them with `UPDATE_GOLDEN=1 yarn test`.
+ */
+function expectGolden(name: string, list: DisplayList, scale = 0.25) {
+  const png = Buffer.from(
+    encodePNG(rasterizeDisplayList(list, { width: 200, height: 200, scale })),
+  );
+  const golden = path.join(__dirname, "__golden__", `${name}.png`);
+  if (process.env.UPDATE_GOLDEN) {
+    fs.writeFileSync(golden, png);
+  }
+  expect(png.equals(fs.readFileSync(golden))).toBe(true);
+}
+
+for (const sceneName of Object.keys(scenes) as (keyof typeof scenes)[]) {
+  test(`${sceneName} matches its golden image`, () => {
+    const seed = 1;
+    const { cubes, materials } = scenes[sceneName](new Random(seed));
+    const list = renderScene(cubes, surfaceColors.desert_stone, seed, {
+      materials,
+    });
+    expectGolden(sceneName, list);
+  });
+}
+
+test("smoothed terrain matches its golden image", () => {
+  const seed = 1;
+  const { cubes, materials, blocks } = terrain(new Random(seed), {
+    ...DEFAULT_TERRAIN,
+    smooth: true,
+  });
+  const list = renderScene(cubes, surfaceColors.desert_stone, seed, {
+    materials,
+    blocks,
+  });
+  expectGolden("smooth_terrain", list);
+});
+
+test("every block matches its golden image", () => {
+  // The blocks stand in rows of 4 on a floor, each with room around it.
+  const cubes = box(0, 0, 0, 8, 0, 8).cubes();
+  const blocks = new Map<Pt3, BlockName>();
+  const materials = new Map<Pt3, MaterialName>();
+  blockNames.forEach((block, i) => {
+    const cube = pt3(2 * (i % 4) + 1, 1, 2 * Math.floor(i / 4) + 1);
+    cubes.add(cube);
+    blocks.set(cube, block);
+    materials.set(cube, i % 2 ? "brick" : "snow");
+  });
+  const list = renderScene(cubes, surfaceColors.blossoms, 1, {
+    viewport: fitScene(cubes, 1, 200, 200),
+    rotation: 1,
+    materials,
+    blocks,
+  });
+  expectGolden("blocks", list, 1);
+});
@@ -0,0 +1,121 @@
+import { RGB, toByte } from "./color";
+import { DisplayList } from "./displayList";
+import { P } from "./geometry";
+
+/**
+ * An `RGBAImage` is a plain pixel buffer with 4 bytes per pixel, stored row by
+ * row from the top-left corner (the same layout as canvas `ImageData`).
+ */
+export class RGBAImage {
+  public readonly data: Uint8ClampedArray;
+  constructor(public readonly width: number, public readonly height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+
+  /**
+   * `get` returns the `[r, g, b, a]` bytes of the pixel at `(x, y)`.
+   */
+  public get(x: number, y: number): [number, number, number, number] {
+    const i = 4 * (y * this.width + x);
+    return [this.data[i], this.data[i + 1], this.data[i + 2], this.data[i + 3]];
+  }
+
+  /**
+   * `fillSpan` sets the pixels from `x0` up to (but not including) `x1` in
+   * row `y` to an opaque color.
+   */
+  public fillSpan(y: number, x0: number, x1: number, color: RGB): void {
+    const r = toByte(color[0]);
+    const g = toByte(color[1]);
+    const b = toByte(color[2]);
+    for (let i = 4 * (y * this.width + x0); i < 4 * (y * this.width + x1); ) {
+      this.data[i++] = r;
+      this.data[i++] = g;
+      this.data[i++] = b;
+      this.data[i++] = 255;
+    }
+  }
+}
+
+/**
+ * `fillPolygon` fills a closed polygon using the nonzero winding rule.
+ * A pixel is filled when its center is inside the polygon, so polygons that
+ * share an edge never both cover the same pixel.
+ * The polygon's corners are multiplied by `scale` first.
+ */
+export function fillPolygon(
+  image: RGBAImage,
+  polygon: P[],
+  color: RGB,
+  scale: number,
+): void {
+  const corners = polygon.map(p => ({ x: p.x * scale, y: p.y * scale }));
+  const top = Math.max(0, Math.floor(Math.min(...corners.map(p => p.y))));
+  const bottom = Math.min(
+    image.height - 1,
+    Math.ceil(Math.max(...corners.map(p => p.y))),
+  );
+
+  for (let y = top; y <= bottom; y++) {
+    const sampleY = y + 0.5;
+    const crossings: { x: number; winding: number }[] = [];
+    for (let i = 0; i < corners.length; i++) {
+      const a = corners[i];
+      const b = corners[(i + 1) % corners.length];
+      // Half-open in y, so that a corner shared by two edges counts once.
+      const aAbove = a.y <= sampleY;
+      const bAbove = b.y <= sampleY;
+      if (aAbove !== bAbove) {
+        crossings.push({
+          x: a.x + ((sampleY - a.y) / (b.y - a.y)) * (b.x - a.x),
+          winding: a.y < b.y ? 1 : -1,
+        });
+      }
+    }
+    crossings.sort((p, q) => p.x - q.x);
+
+    let winding = 0;
+    for (let i = 0; i < crossings.length - 1; i++) {
+      winding += crossings[i].winding;
+      if (winding !== 0) {
+        // Pixel x is covered when its center x + 0.5 lies in the span.
+        const x0 = Math.max(0, Math.ceil(crossings[i].x - 0.5));
+        const x1 = Math.min(image.width, Math.ceil(crossings[i + 1].x - 0.5));
+        if (x0 < x1) {
+          image.fillSpan(y, x0, x1, color);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * `rasterizeDisplayList` paints a `DisplayList` into a new image without
+ * needing a canvas. `scale` converts display list coordinates into pixels.
+ * The list is painted over a copy of `background` (such as a `skyImage`) of
+ * the same size, or over opaque black.
+ */
+export function rasterizeDisplayList(
+  list: DisplayList,
+  options: {
+    width: number;
+    height: number;
+    scale: number;
+    background?: RGBAImage;
+  },
+): RGBAImage {
+  const image = new RGBAImage(options.width, options.height);
+  if (options.background) {
+    image.data.set(options.background.data);
+  } else {
+    for (let i = 3; i < image.data.length; i += 4) {
+      image.data[i] = 255;
+    }
+  }
+  for (const item of list) {
+    for (const polygon of item.polygons) {
+      fillPolygon(image, polygon, item.color, options.scale);
+    }
+  }
+  return image;
+}
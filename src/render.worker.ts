@@ -0,0 +1,9 @@
+import { renderer, RenderRequest } from "./renderJob";
+
+// The worker's global scope posts messages back to the page.
+// eslint-disable-next-line no-restricted-globals
+const scope: Worker = self as any;
+const render = renderer((message, transfer) =>
+  scope.postMessage(message, transfer),
+);
+scope.onmessage = (e: MessageEvent) => render(e.data as RenderRequest);
@@ -0,0 +1,212 @@
+import { toView } from "./camera";
+import { builtinThemes, surfaceColors } from "./color";
+import { pickFace } from "./editing";
+import { DEFAULT_VIEWPORT, pt3, Viewport } from "./geometry";
+import { Random } from "./random";
+import { RenderClient } from "./renderClient";
+import {
+  packScene,
+  RenderMessage,
+  renderer,
+  RenderRequest,
+  RenderScene,
+} from "./renderJob";
+import { renderScene, shadeScene } from "./shading";
+import { DEFAULT_SUN } from "./shadows";
+import { box, sphere } from "./shapes";
+
+/**
+ * A `FakeWorker` runs `renderer` on the main thread, answering each request
+ * a moment after it is posted, like a real worker would.
+ */
+class FakeWorker {
+  public static started: FakeWorker[] = [];
+  public onmessage: ((e: { data: RenderMessage }) => void) | null = null;
+  public requests: RenderRequest[] = [];
+  public terminated = false;
+  private render = renderer(message =>
+    setTimeout(() => {
+      if (!this.terminated && this.onmessage) {
+        this.onmessage({ data: message });
+      }
+    }),
+  );
+
+  constructor() {
+    FakeWorker.started.push(this);
+  }
+
+  public postMessage(request: RenderRequest) {
+    this.requests.push(request);
+    setTimeout(() => {
+      if (!this.terminated) {
+        this.render(request);
+      }
+    });
+  }
+
+  public terminate() {
+    this.terminated = true;
+  }
+}
+
+function client() {
+  FakeWorker.started = [];
+  return new RenderClient(() => (new FakeWorker() as unknown) as Worker);
+}
+
+/**
+ * `tower` is a small scene, with a material that has an effect.
+ */
+function tower(seed: number) {
+  const cubes = box(0, 0, 0, 5, 0, 5)
+    .union(sphere(2, 3, 2, 2 + (seed % 2)))
+    .cubes();
+  const materials = new Map(
+    [...cubes].filter(c => c.cy === 0).map(c => [c, "water" as const]),
+  );
+  return { cubes, materials };
+}
+
+function scene(seed: number): RenderScene {
+  const { cubes, materials } = tower(seed);
+  return packScene(cubes, {
+    materials,
+    colors: new Map(),
+    blocks: new Map(),
+    theme: builtinThemes.blossoms,
+    seed,
+    rotation: 1,
+    sun: DEFAULT_SUN,
+  });
+}
+
+test("rendering in a worker draws the same picture", async () => {
+  const { cubes, materials } = tower(4);
+  const progress: number[] = [];
+  const result = await client().render(scene(4), DEFAULT_VIEWPORT, f =>
+    progress.push(f),
+  );
+  const expected = renderScene(cubes, surfaceColors.blossoms, 4, {
+    materials,
+    rotation: 1,
+  });
+  expect(result!.list).toEqual(expected);
+  expect(progress.length).toBeGreaterThan(1);
+  expect(progress).toEqual([...progress].sort((a, b) => a - b));
+
+  const mesh = shadeScene(cubes, surfaceColors.blossoms, new Random(4), {
+    materials,
+    rotation: 1,
+  });
+  for (const side of ["left", "right"] as const) {
+    for (const [t, face] of mesh[side]) {
+      const p = t.pt();
+      expect(result!.pick!.get(t, side)).toEqual({
+        cube: face.cube,
+        face: face.face,
+      });
+      expect(pickFace(result!.pick!, p)).toEqual(pickFace(mesh, p));
+    }
+  }
+});
+
+test("moving the view reuses the shaded scene", async () => {
+  const renders = client();
+  const same = scene(2);
+  await renders.render(same, DEFAULT_VIEWPORT, () => {});
+  const moved = new Viewport(40, 100, 300);
+  const result = await renders.render(same, moved, () => {});
+  const [worker] = FakeWorker.started;
+  expect(worker.requests.map(r => r.scene !== undefined)).toEqual([
+    true,
+    false,
+  ]);
+  expect(result!.pick).toBeUndefined();
+  const { cubes, materials } = tower(2);
+  expect(result!.list).toEqual(
+    renderScene(cubes, surfaceColors.blossoms, 2, {
+      materials,
+      rotation: 1,
+      viewport: moved,
+    }),
+  );
+});
+
+test("a newer render cancels the one still shading", async () => {
+  const renders = client();
+  const stale = renders.render(scene(1), DEFAULT_VIEWPORT, () => {});
+  const latest = renders.render(scene(2), DEFAULT_VIEWPORT, () => {});
+  expect(await stale).toBeNull();
+  expect(FakeWorker.started).toHaveLength(2);
+  expect(FakeWorker.started[0].terminated).toBe(true);
+  expect((await latest)!.list.length).toBeGreaterThan(0);
+
+  // A render that only moves the view is left to finish.
+  const same = scene(3);
+  await renders.render(same, DEFAULT_VIEWPORT, () => {});
+  const moving = renders.render(same, new Viewport(10, 0, 0), () => {});
+  const moved = renders.render(same, new Viewport(20, 0, 0), () => {});
+  expect(await moving).toBeNull();
+  expect(await moved).not.toBeNull();
+  expect(FakeWorker.started).toHaveLength(2);
+});
+
+test("errors in the worker reject the render", async () => {
+  const renders = client();
+  const broken = { ...scene(1), theme: { ...builtinThemes.blossoms } };
+  broken.theme.top = { space: "oklab", stops: [] };
+  await expect(
+    renders.render(broken, DEFAULT_VIEWPORT, () => {}),
+  ).rejects.toThrow(/at least one stop/);
+  // The scene is sent again, rather than drawing the one before.
+  await renders.render(scene(1), DEFAULT_VIEWPORT, () => {});
+  expect(FakeWorker.started[0].requests[1].scene).toBeDefined();
+});
+
+test("errors that aren't Errors are still explained", () => {
+  const messages: RenderMessage[] = [];
+  const render = renderer(message => messages.push(message));
+  const broken = Object.defineProperty({ ...scene(1) }, "cubes", {
+    get: () => {
+      // eslint-disable-next-line no-throw-literal
+      throw "no cubes here";
+    },
+  });
+  render({ job: 1, scene: broken, viewport: DEFAULT_VIEWPORT });
+  expect(messages).toEqual([
+    { kind: "error", job: 1, message: "no cubes here" },
+  ]);
+});
+
+test("editing a few cubes repaints only what changed", async () => {
+  const renders = client();
+  const first = await renders.render(scene(4), DEFAULT_VIEWPORT, () => {});
+  expect(first!.dirty).toBeUndefined();
+
+  const { cubes, materials } = tower(4);
+  cubes.add(pt3(2, 6, 2));
+  const edited = packScene(cubes, {
+    materials,
+    colors: new Map(),
+    blocks: new Map(),
+    theme: builtinThemes.blossoms,
+    seed: 4,
+    rotation: 1,
+    sun: DEFAULT_SUN,
+  });
+  const result = await renders.render(edited, DEFAULT_VIEWPORT, () => {});
+  expect(result!.list).toEqual(
+    renderScene(cubes, surfaceColors.blossoms, 4, { materials, rotation: 1 }),
+  );
+  expect(result!.dirty).toBeTruthy();
+  const top = pt3(2, 6, 2);
+  expect(result!.pick!.get(toView(top, 1).tri(), "left")).toEqual({
+    cube: top,
+    face: "up",
+  });
+
+  // Asking again for the same picture changes nothing.
+  const again = await renders.render(edited, DEFAULT_VIEWPORT, () => {});
+  expect(again!.dirty).toBeNull();
+});
@@ -0,0 +1,136 @@
+import { DisplayList, Rect } from "./displayList";
+import { Target } from "./editing";
+import { Viewport } from "./geometry";
+import { Mesh } from "./mesh";
+import { OutlineStyle } from "./outlines";
+import {
+  RenderMessage,
+  RenderRequest,
+  RenderScene,
+  unpackDisplayList,
+  unpackPickMesh,
+} from "./renderJob";
+
+/**
+ * A `RenderResult` is what a finished render job gives back: the display
+ * list to paint, and, if the scene was shaded anew, the mesh used to find
+ * the face under the mouse (see `pickFace`).
+ * If `dirty` is set, the list only differs from the previous result inside
+ * that area, or not at all if it is `null`, so the rest of the picture can be
+ * left as it is.
+ */
+export type RenderResult = {
+  list: DisplayList;
+  pick?: Mesh<Target>;
+  dirty?: Rect | null;
+};
+
+type Job = {
+  job: number;
+  shading: boolean;
+  onProgress: (fraction: number) => void;
+  resolve: (result: RenderResult | null) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * A `RenderClient` renders scenes in a worker running `renderer`, so that
+ * the page keeps responding while a scene is shaded.
+ *
+ * Only the latest request matters: starting a new one cancels the one
+ * before, whose promise resolves to `null`. A stale job that is still
+ * shading is stopped by replacing the worker; one that is only building its
+ * display list is quick, so it is left to finish and its result ignored.
+ */
+export class RenderClient {
+  private worker: Worker;
+  private lastJob = 0;
+  // `sent` is the scene the worker has shaded, or is shading.
+  private sent: RenderScene | null = null;
+  private running: Job | null = null;
+  // `shown` is the job whose result was given back last.
+  private shown = 0;
+
+  constructor(private readonly spawn: () => Worker) {
+    this.worker = this.start();
+  }
+
+  private start(): Worker {
+    const worker = this.spawn();
+    worker.onmessage = (e: MessageEvent) => this.receive(e.data);
+    this.sent = null;
+    return worker;
+  }
+
+  /**
+   * `render` draws `scene` through `viewport`, outlined in the given style if
+   * any, calling `onProgress` with the fraction of the work done as it goes.
+   * Passing the same `scene` object as the last request skips shading it
+   * again.
+   */
+  public render(
+    scene: RenderScene,
+    viewport: Viewport,
+    onProgress: (fraction: number) => void,
+    outline?: OutlineStyle,
+  ): Promise<RenderResult | null> {
+    if (this.running) {
+      if (this.running.shading) {
+        this.worker.terminate();
+        this.worker = this.start();
+      }
+      this.running.resolve(null);
+      this.running = null;
+    }
+    const job = ++this.lastJob;
+    const shading = scene !== this.sent;
+    this.sent = scene;
+    const request: RenderRequest = {
+      job,
+      scene: shading ? scene : undefined,
+      viewport: { scale: viewport.scale, x: viewport.x, y: viewport.y },
+      outline,
+    };
+    return new Promise((resolve, reject) => {
+      this.running = { job, shading, onProgress, resolve, reject };
+      this.worker.postMessage(request);
+    });
+  }
+
+  private receive(message: RenderMessage) {
+    const running = this.running;
+    if (!running || message.job !== running.job) {
+      return;
+    }
+    switch (message.kind) {
+      case "progress":
+        running.onProgress(message.fraction);
+        return;
+      case "error":
+        this.running = null;
+        // The worker may have lost its scene, so the next job sends it again.
+        this.sent = null;
+        running.reject(new Error(message.message));
+        return;
+      case "done":
+        this.running = null;
+        running.resolve({
+          list: unpackDisplayList(message.list),
+          pick: message.pick && unpackPickMesh(message.pick),
+          // Changes are only useful next to the picture they were made to.
+          dirty:
+            message.base !== undefined && message.base === this.shown
+              ? message.dirty
+              : undefined,
+        });
+        this.shown = message.job;
+    }
+  }
+
+  /**
+   * `dispose` stops the worker. Jobs still running never finish.
+   */
+  public dispose(): void {
+    this.worker.terminate();
+  }
+}
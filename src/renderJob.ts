@@ -0,0 +1,392 @@
+import { BlockName } from "./blocks";
+import { Rotation } from "./camera";
+import { RGB, Theme, themeSurface } from "./color";
+import {
+  DisplayItem,
+  DisplayList,
+  IncrementalDisplayList,
+  Rect,
+} from "./displayList";
+import { Target } from "./editing";
+import { pt, Pt3, pt3, TriPt, Viewport } from "./geometry";
+import { MaterialName } from "./materials";
+import { OutlineStyle } from "./outlines";
+import { Face, Mesh } from "./mesh";
+import { Random } from "./random";
+import { SceneModel } from "./sceneModel";
+import { effectRandom } from "./shading";
+import { Sun } from "./shadows";
+
+/**
+ * A `RenderScene` is everything that decides how a scene is shaded, as plain
+ * data that can be posted to a worker. `cubes` lists 3 coordinates per cube,
+ * and `materials`, `colors` and `blocks` line up with the cubes.
+ */
+export type RenderScene = {
+  cubes: Int32Array;
+  materials: (MaterialName | null)[];
+  colors: (RGB | null)[];
+  blocks: (BlockName | null)[];
+  theme: Theme;
+  seed: number;
+  rotation: Rotation;
+  sun: Sun;
+  tint?: RGB;
+};
+
+/**
+ * A `RenderRequest` asks the render worker to draw a scene through
+ * `viewport`, outlined if `outline` is set. `scene` is left out when it is
+ * the same as in the worker's last request, so that panning and zooming
+ * don't shade the scene again.
+ */
+export type RenderRequest = {
+  job: number;
+  scene?: RenderScene;
+  viewport: { scale: number; x: number; y: number };
+  outline?: OutlineStyle;
+};
+
+/**
+ * A `PackedDisplayList` is a `DisplayList` stored in flat arrays, which are
+ * much quicker to post between threads than many small objects.
+ * Each item has a kind (its index in `ITEM_KINDS`), a depth, 3 color
+ * channels and a number of polygons; each polygon has a number of corners;
+ * and each corner has 2 coordinates.
+ */
+export type PackedDisplayList = {
+  kinds: Uint8Array;
+  depths: Float64Array;
+  colors: Float64Array;
+  polygons: Uint32Array;
+  corners: Uint32Array;
+  points: Float64Array;
+};
+
+/**
+ * A `PackedPickMesh` stores the `Target` in each triangle of a mesh, as
+ * `[tx, ty, cx, cy, cz, face]` for every triangle on each side.
+ */
+export type PackedPickMesh = { left: Int32Array; right: Int32Array };
+
+/**
+ * `RenderMessage`s are posted back by the render worker: progress while a
+ * job runs, then either its result or the error that stopped it.
+ * `pick` is only included when the scene was shaded anew.
+ * When `base` is set, the list only differs from the one posted for job
+ * `base` inside `dirty`, or not at all if `dirty` is `null`.
+ */
+export type RenderMessage =
+  | { kind: "progress"; job: number; fraction: number }
+  | {
+      kind: "done";
+      job: number;
+      list: PackedDisplayList;
+      pick?: PackedPickMesh;
+      base?: number;
+      dirty?: Rect | null;
+    }
+  | { kind: "error"; job: number; message: string };
+
+/**
+ * `packScene` gathers what `shadeScene` needs into a `RenderScene`.
+ */
+export function packScene(
+  cubes: Set<Pt3>,
+  settings: {
+    materials: Map<Pt3, MaterialName>;
+    colors: Map<Pt3, RGB>;
+    blocks: Map<Pt3, BlockName>;
+    theme: Theme;
+    seed: number;
+    rotation: Rotation;
+    sun: Sun;
+    tint?: RGB;
+  },
+): RenderScene {
+  const { materials, colors, blocks, ...rest } = settings;
+  const list = [...cubes];
+  const coordinates = new Int32Array(3 * list.length);
+  list.forEach((cube, i) =>
+    coordinates.set([cube.cx, cube.cy, cube.cz], 3 * i),
+  );
+  return {
+    ...rest,
+    cubes: coordinates,
+    materials: list.map(cube => materials.get(cube) || null),
+    colors: list.map(cube => colors.get(cube) || null),
+    blocks: list.map(cube => blocks.get(cube) || null),
+  };
+}
+
+const ITEM_KINDS: DisplayItem["kind"][] = ["face", "effect", "outline"];
+
+/**
+ * `packDisplayList` packs a display list so it can be posted to another
+ * thread; `unpackDisplayList` undoes it.
+ */
+export function packDisplayList(list: DisplayList): PackedDisplayList {
+  const polygons = list.reduce((sum, item) => sum + item.polygons.length, 0);
+  let points = 0;
+  for (const item of list) {
+    for (const polygon of item.polygons) {
+      points += polygon.length;
+    }
+  }
+  const packed = {
+    kinds: new Uint8Array(list.length),
+    depths: new Float64Array(list.length),
+    colors: new Float64Array(3 * list.length),
+    polygons: new Uint32Array(list.length),
+    corners: new Uint32Array(polygons),
+    points: new Float64Array(2 * points),
+  };
+  let polygon = 0;
+  let point = 0;
+  list.forEach((item, i) => {
+    packed.kinds[i] = ITEM_KINDS.indexOf(item.kind);
+    packed.depths[i] = item.depth;
+    packed.colors.set(item.color, 3 * i);
+    packed.polygons[i] = item.polygons.length;
+    for (const corners of item.polygons) {
+      packed.corners[polygon++] = corners.length;
+      for (const corner of corners) {
+        packed.points[point++] = corner.x;
+        packed.points[point++] = corner.y;
+      }
+    }
+  });
+  return packed;
+}
+
+export function unpackDisplayList(packed: PackedDisplayList): DisplayList {
+  const list: DisplayList = [];
+  let polygon = 0;
+  let point = 0;
+  for (let i = 0; i < packed.kinds.length; i++) {
+    const polygons = [];
+    for (let k = 0; k < packed.polygons[i]; k++) {
+      const corners = [];
+      for (let c = 0; c < packed.corners[polygon]; c++) {
+        corners.push(pt(packed.points[point], packed.points[point + 1]));
+        point += 2;
+      }
+      polygon++;
+      polygons.push(corners);
+    }
+    list.push({
+      kind: ITEM_KINDS[packed.kinds[i]],
+      depth: packed.depths[i],
+      color: [
+        packed.colors[3 * i],
+        packed.colors[3 * i + 1],
+        packed.colors[3 * i + 2],
+      ],
+      polygons,
+    });
+  }
+  return list;
+}
+
+const FACES: Face[] = ["up", "left", "right"];
+
+/**
+ * `packPickMesh` keeps only what `pickFace` needs from a shaded mesh, packed
+ * so it can be posted to another thread; `unpackPickMesh` undoes it.
+ */
+export function packPickMesh(mesh: Mesh<Target>): PackedPickMesh {
+  const side = (triangles: Map<TriPt, Target>) => {
+    const packed = new Int32Array(6 * triangles.size);
+    let i = 0;
+    for (const [t, { cube, face }] of triangles) {
+      packed.set(
+        [t.tx, t.ty, cube.cx, cube.cy, cube.cz, FACES.indexOf(face)],
+        i,
+      );
+      i += 6;
+    }
+    return packed;
+  };
+  return { left: side(mesh.left), right: side(mesh.right) };
+}
+
+export function unpackPickMesh(packed: PackedPickMesh): Mesh<Target> {
+  const mesh = new Mesh<Target>();
+  for (const side of ["left", "right"] as const) {
+    const data = packed[side];
+    for (let i = 0; i < data.length; i += 6) {
+      mesh.set(new TriPt(data[i], data[i + 1]), side, {
+        cube: pt3(data[i + 2], data[i + 3], data[i + 4]),
+        face: FACES[data[i + 5]],
+      });
+    }
+  }
+  return mesh;
+}
+
+/**
+ * `unpackCubes` undoes the packing of cubes done by `packScene`.
+ */
+function unpackCubes(
+  scene: RenderScene,
+): {
+  cubes: Set<Pt3>;
+  materials: Map<Pt3, MaterialName>;
+  colors: Map<Pt3, RGB>;
+  blocks: Map<Pt3, BlockName>;
+} {
+  const cubes = new Set<Pt3>();
+  const materials = new Map<Pt3, MaterialName>();
+  const colors = new Map<Pt3, RGB>();
+  const blocks = new Map<Pt3, BlockName>();
+  for (let i = 0; i < scene.cubes.length / 3; i++) {
+    const cube = pt3(
+      scene.cubes[3 * i],
+      scene.cubes[3 * i + 1],
+      scene.cubes[3 * i + 2],
+    );
+    cubes.add(cube);
+    const material = scene.materials[i];
+    if (material) {
+      materials.set(cube, material);
+    }
+    const color = scene.colors[i];
+    if (color) {
+      colors.set(cube, color);
+    }
+    const block = scene.blocks[i];
+    if (block) {
+      blocks.set(cube, block);
+    }
+  }
+  return { cubes, materials, colors, blocks };
+}
+
+/**
+ * `SHADING_SHARE` is the part of a job's progress spent shading; the rest is
+ * spent building the display list.
+ */
+const SHADING_SHARE = 0.8;
+
+/**
+ * `EDITED_SHARE` is the largest part of a scene's cubes that can change
+ * before shading the whole scene again is quicker than following the edits.
+ */
+const EDITED_SHARE = 0.05;
+
+/**
+ * `renderer` does the work of the render worker, answering each request by
+ * calling `post`.
+ * It keeps the last scene it shaded as a `SceneModel`, so a scene where only
+ * a few cubes changed is shaded again incrementally, and the display list
+ * too, so that only the part of the picture that changed is repainted.
+ * Requests without a scene only need to build a new display list.
+ */
+export function renderer(
+  post: (message: RenderMessage, transfer: Transferable[]) => void,
+): (request: RenderRequest) => void {
+  // `lighting` is everything about `model` besides its cubes.
+  let shaded: {
+    model: SceneModel;
+    lighting: string;
+    seed: number;
+  } | null = null;
+  // `drawn` is the display list posted for `job`, and `view` how it was
+  // drawn.
+  let drawn: {
+    display: IncrementalDisplayList;
+    view: string;
+    job: number;
+  } | null = null;
+  return ({ job, scene, viewport, outline }) => {
+    try {
+      let pick: PackedPickMesh | undefined;
+      // `changed` lists the triangles that changed, if not all of them did.
+      let changed: [TriPt, "left" | "right"][] | null = null;
+      if (scene) {
+        const { cubes, materials, colors, blocks } = unpackCubes(scene);
+        const { theme, seed, rotation, sun, tint } = scene;
+        // The sky is painted behind the scene by the client, so changing it
+        // doesn't need the scene to be shaded again.
+        const lighting = JSON.stringify([
+          { ...theme, sky: undefined },
+          seed,
+          rotation,
+          sun,
+          tint,
+        ]);
+        if (
+          shaded &&
+          shaded.lighting === lighting &&
+          shaded.model.sync(cubes, materials, colors, blocks) <=
+            EDITED_SHARE * cubes.size
+        ) {
+          changed = shaded.model.flush();
+        } else {
+          // Forget the old scene first, in case shading fails.
+          shaded = null;
+          drawn = null;
+          const model = new SceneModel(
+            cubes,
+            themeSurface(theme),
+            new Random(seed),
+            {
+              rotation,
+              sun,
+              tint,
+              fog: theme.fog,
+              materials,
+              colors,
+              blocks,
+              onProgress: fraction =>
+                post(
+                  { kind: "progress", job, fraction: SHADING_SHARE * fraction },
+                  [],
+                ),
+            },
+          );
+          shaded = { model, lighting, seed };
+        }
+        pick = packPickMesh(shaded.model.mesh);
+      }
+      if (!shaded) {
+        throw new Error("there is no scene to render yet");
+      }
+      post({ kind: "progress", job, fraction: SHADING_SHARE }, []);
+
+      let base: number | undefined;
+      let dirty: Rect | null | undefined;
+      const view = JSON.stringify([viewport, outline]);
+      if (drawn && drawn.view === view && (changed || !scene)) {
+        base = drawn.job;
+        dirty = changed
+          ? drawn.display.update(shaded.model.mesh, changed)
+          : null;
+        drawn.job = job;
+      } else {
+        drawn = {
+          display: new IncrementalDisplayList(
+            shaded.model.mesh,
+            effectRandom(shaded.seed),
+            new Viewport(viewport.scale, viewport.x, viewport.y),
+            outline,
+          ),
+          view,
+          job,
+        };
+      }
+      const list = packDisplayList(drawn.display.list);
+      const transfer = [
+        ...Object.values(list),
+        ...(pick ? [pick.left, pick.right] : []),
+      ].map(array => array.buffer);
+      post({ kind: "done", job, list, pick, base, dirty }, transfer);
+    } catch (error) {
+      // The scene may have been left half edited.
+      shaded = null;
+      drawn = null;
+      const message = error instanceof Error ? error.message : String(error);
+      post({ kind: "error", job, message }, []);
+    }
+  };
+}
@@ -0,0 +1,259 @@
+import { BlockName } from "./blocks";
+import { RGB, Theme } from "./color";
+import { Pt3, pt3, Viewport } from "./geometry";
+import { MaterialName } from "./materials";
+import { Random } from "./random";
+import { parseSceneFile, SavedScene, serializeScene } from "./sceneFile";
+import { scenes } from "./scenes";
+
+function canyonCity(): SavedScene {
+  const { cubes } = scenes.canyon_city(new Random(3));
+  const materials = new Map<Pt3, MaterialName>();
+  const colors = new Map<Pt3, RGB>();
+  const blocks = new Map<Pt3, BlockName>();
+  for (const cube of cubes) {
+    if (cube.cy >= 3) {
+      colors.set(cube, cube.cx % 2 ? [1, 0, 0] : [0, 128 / 255, 1]);
+    } else if (cube.cx % 3 === 0) {
+      materials.set(cube, cube.cz % 2 ? "stone" : "sand");
+    }
+    if (cube.cz % 5 === 0) {
+      blocks.set(cube, cube.cx % 2 ? "slab" : "inner_nw");
+    }
+  }
+  return {
+    cubes,
+    materials,
+    colors,
+    blocks,
+    palette: "blossoms",
+    seed: 3,
+    rotation: 2,
+    viewport: new Viewport(40, 120, -35.5),
+    sun: { azimuth: 200, elevation: 30, softness: 5 },
+  };
+}
+
+test("scenes survive saving and loading", () => {
+  const scene = canyonCity();
+  expect(scene.colors.size).toBeGreaterThan(0);
+  expect(scene.materials.size).toBeGreaterThan(0);
+  expect(scene.blocks.size).toBeGreaterThan(0);
+  const { cubes, ...loaded } = parseSceneFile(serializeScene(scene));
+  const { cubes: original, ...settings } = scene;
+  expect(loaded).toEqual(settings);
+  expect(cubes.size).toBe(original.size);
+  expect([...original].every(cube => cubes.has(cube))).toBe(true);
+});
+
+test("cubes are stored as runs of stacked cubes", () => {
+  const scene = canyonCity();
+  const text = serializeScene(scene);
+  const uncompressed = JSON.stringify(
+    [...scene.cubes].map(c => [
+      c.cx,
+      c.cy,
+      c.cz,
+      scene.colors.has(c) ? 1 : 0,
+      scene.materials.has(c) ? 1 : 0,
+    ]),
+  );
+  expect(text.length).toBeLessThan(uncompressed.length / 2);
+  expect(
+    JSON.parse(
+      serializeScene({
+        ...scene,
+        cubes: new Set([
+          pt3(1, 0, 2),
+          pt3(1, 1, 2),
+          pt3(1, 2, 2),
+          pt3(1, 5, 2),
+          pt3(0, 0, 0),
+        ]),
+        materials: new Map<Pt3, MaterialName>([
+          [pt3(1, 5, 2), "water"],
+          [pt3(0, 0, 0), "ground"],
+        ]),
+        colors: new Map([[pt3(1, 2, 2), [1, 1, 1] as RGB]]),
+        blocks: new Map([[pt3(1, 5, 2), "ramp_west" as BlockName]]),
+      }),
+    ),
+  ).toMatchObject({
+    colors: ["#ffffff"],
+    materials: ["water"],
+    blocks: ["ramp_west"],
+    columns: [
+      [0, 0, 0, 1, 0, 0, 0],
+      [1, 2, 0, 2, 0, 0, 0, 2, 1, 1, 0, 0, 5, 1, 0, 1, 1],
+    ],
+  });
+});
+
+test("version 1 files, without colors, can still be loaded", () => {
+  const scene = parseSceneFile(
+    JSON.stringify({
+      format: "barrens-scene",
+      version: 1,
+      palette: "desert_stone",
+      seed: 5,
+      view: {
+        rotation: 0,
+        scale: 25,
+        x: 400,
+        y: 400,
+        sun: { azimuth: 0, elevation: 45, softness: 0 },
+      },
+      columns: [[1, 2, 0, 2, 5, 1]],
+    }),
+  );
+  expect([...scene.cubes]).toEqual([pt3(1, 0, 2), pt3(1, 1, 2), pt3(1, 5, 2)]);
+  expect(scene.colors.size).toBe(0);
+});
+
+test("version 2 files, without materials, can still be loaded", () => {
+  const scene = parseSceneFile(
+    JSON.stringify({
+      format: "barrens-scene",
+      version: 2,
+      palette: "blossoms",
+      seed: 5,
+      view: {
+        rotation: 1,
+        scale: 25,
+        x: 400,
+        y: 400,
+        sun: { azimuth: 0, elevation: 45, softness: 0 },
+      },
+      colors: ["#ff0000"],
+      columns: [[1, 2, 0, 2, 0, 5, 1, 1]],
+    }),
+  );
+  expect([...scene.cubes]).toEqual([pt3(1, 0, 2), pt3(1, 1, 2), pt3(1, 5, 2)]);
+  expect(scene.colors.get(pt3(1, 5, 2))).toEqual([1, 0, 0]);
+  expect(scene.materials.size).toBe(0);
+});
+
+test("version 5 files, without blocks, can still be loaded", () => {
+  const scene = parseSceneFile(
+    JSON.stringify({
+      format: "barrens-scene",
+      version: 5,
+      palette: "blossoms",
+      seed: 5,
+      view: {
+        rotation: 1,
+        scale: 25,
+        x: 400,
+        y: 400,
+        sun: { azimuth: 0, elevation: 45, softness: 0 },
+      },
+      colors: [],
+      materials: ["water"],
+      columns: [[1, 2, 0, 2, 0, 0, 5, 1, 0, 1]],
+    }),
+  );
+  expect([...scene.cubes]).toEqual([pt3(1, 0, 2), pt3(1, 1, 2), pt3(1, 5, 2)]);
+  expect(scene.materials.get(pt3(1, 5, 2))).toBe("water");
+  expect(scene.blocks.size).toBe(0);
+});
+
+test("custom themes are saved along with the scene", () => {
+  const theme: Theme = {
+    top: {
+      space: "hsl",
+      stops: [
+        { at: 0.5, color: [1, 0, 0] },
+        { at: 0, color: [0, 0, 1] },
+      ],
+    },
+    right: { space: "srgb", stops: [{ at: 0.2, color: [0, 128 / 255, 1] }] },
+    left: { space: "oklab", stops: [{ at: 0, color: [1, 1, 1] }] },
+  };
+  const scene = { ...canyonCity(), palette: "sunset", theme };
+  const loaded = parseSceneFile(serializeScene(scene));
+  expect(loaded.palette).toBe("sunset");
+  expect(loaded.theme).toEqual(theme);
+  expect(parseSceneFile(serializeScene(canyonCity())).theme).toBeUndefined();
+});
+
+test("malformed scene files are rejected with a clear reason", () => {
+  const valid = JSON.parse(serializeScene(canyonCity()));
+  const broken = (change: (file: any) => void) => {
+    const file = JSON.parse(JSON.stringify(valid));
+    change(file);
+    return () => parseSceneFile(JSON.stringify(file));
+  };
+
+  expect(() => parseSceneFile("{cubes")).toThrow(/file is not JSON/);
+  expect(() => parseSceneFile("[]")).toThrow(/file should be an object/);
+  expect(broken(f => (f.format = "png"))).toThrow(/file is not a scene file/);
+  expect(broken(f => (f.version = 99))).toThrow(/saved by a newer version/);
+  expect(broken(f => delete f.seed)).toThrow(/file is missing "seed"/);
+  expect(broken(f => (f.palette = "neon"))).toThrow(
+    /palette should be one of desert_stone, blossoms/,
+  );
+  for (const name of ["constructor", "toString"]) {
+    expect(broken(f => (f.palette = name))).toThrow(
+      /palette should be one of desert_stone, blossoms/,
+    );
+  }
+  expect(
+    broken(f => {
+      f.palette = "sunset";
+      const side = { space: "oklab", stops: [{ at: 0, color: "#ffffff" }] };
+      f.theme = { top: side, right: side, left: { space: "oklab" } };
+    }),
+  ).toThrow(/theme.left is missing "stops"/);
+  expect(broken(f => (f.view.rotation = 4))).toThrow(
+    /view.rotation should be 0, 1, 2 or 3/,
+  );
+  expect(broken(f => (f.view.scale = -1))).toThrow(
+    /view.scale should be positive/,
+  );
+  expect(broken(f => (f.view.sun.azimuth = "east"))).toThrow(
+    /view.sun.azimuth should be a number/,
+  );
+  expect(broken(f => (f.colors[0] = "red"))).toThrow(
+    /colors\[0\] should be a color/,
+  );
+  expect(broken(f => (f.materials[0] = "lava"))).toThrow(
+    /materials\[0\] should be one of ground, stone, sand, .*, building/,
+  );
+  for (const name of ["toString", "__proto__"]) {
+    expect(broken(f => (f.materials[0] = name))).toThrow(
+      /materials\[0\] should be one of ground, stone, sand, .*, building/,
+    );
+  }
+  expect(broken(f => (f.blocks[0] = "stairs"))).toThrow(
+    /blocks\[0\] should be one of slab, ramp_east, .*, inner_ne/,
+  );
+  expect(broken(f => (f.columns[3] = [0, 0, 1, 1, 0, 0]))).toThrow(
+    /columns\[3\] should be \[x, z, y, length, color, material, block, ...\]/,
+  );
+  expect(broken(f => (f.columns[1][2] = 0.5))).toThrow(
+    /columns\[1\]\[2\] should be an integer/,
+  );
+  expect(broken(f => (f.columns[0][3] = 0))).toThrow(
+    /columns\[0\]\[3\] should be a positive run length/,
+  );
+  expect(broken(f => (f.columns[0][3] = 1e9))).toThrow(
+    /columns\[0\]\[3\] should be a run length of at most 4096/,
+  );
+  expect(
+    broken(f => {
+      f.columns = [];
+      for (let x = 0; x < 1024; x++) {
+        f.columns.push([x, 0, 0, 4096, 0, 0, 0]);
+      }
+    }),
+  ).toThrow(/columns should hold at most 2097152 cubes/);
+  expect(broken(f => (f.columns[0][4] = 9))).toThrow(
+    /columns\[0\]\[4\] should be 0 or a color number from 1 to 2/,
+  );
+  expect(broken(f => (f.columns[0][5] = 3))).toThrow(
+    /columns\[0\]\[5\] should be 0 or a material number from 1 to 2/,
+  );
+  expect(broken(f => (f.columns[0][6] = -1))).toThrow(
+    /columns\[0\]\[6\] should be 0 or a block number from 1 to 2/,
+  );
+});
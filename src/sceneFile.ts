@@ -0,0 +1,355 @@
+import { blockNames, BlockName } from "./blocks";
+import { Rotation } from "./camera";
+import { builtinThemes, isBuiltinTheme, RGB, Theme, toHex } from "./color";
+import { Pt3, pt3, Viewport } from "./geometry";
+import { JsonReader } from "./jsonReader";
+import {
+  isMaterialName,
+  MaterialName,
+  materials as materialList,
+} from "./materials";
+import { Sun } from "./shadows";
+import { readTheme, themeToJSON } from "./themes";
+
+/**
+ * `SCENE_FILE_VERSION` is written into every saved scene. It must be bumped
+ * whenever the format changes, and `parseSceneFile` taught to read the
+ * older versions.
+ * Version 5 let saved themes have a sky and fog (see `THEME_FILE_VERSION`),
+ * and version 6 added blocks.
+ */
+export const SCENE_FILE_VERSION = 6;
+
+/**
+ * `MAX_RUN_LENGTH` is the tallest run of cubes a scene file may hold, and
+ * `MAX_CUBES` the most cubes all its runs may hold together. Both are far
+ * beyond any scene that can be drawn, but stop a damaged file from hanging
+ * the page while it is read.
+ */
+const MAX_RUN_LENGTH = 1 << 12;
+const MAX_CUBES = 1 << 21;
+
+/**
+ * A `SavedScene` is everything needed to draw a scene the same way again.
+ * When `palette` isn't one of the `builtinThemes`, `theme` holds its colors,
+ * so that scenes can be shared along with custom themes.
+ */
+export type SavedScene = {
+  cubes: Set<Pt3>;
+  materials: Map<Pt3, MaterialName>;
+  colors: Map<Pt3, RGB>;
+  blocks: Map<Pt3, BlockName>;
+  palette: string;
+  theme?: Theme;
+  seed: number;
+  rotation: Rotation;
+  viewport: Viewport;
+  sun: Sun;
+};
+
+/**
+ * `Numbering` numbers distinct strings from 1, in the order they are first
+ * seen; 0 stands for "none".
+ */
+class Numbering {
+  readonly values: string[] = [];
+  private readonly numbers = new Map<string, number>();
+
+  number(value: string | undefined): number {
+    if (value === undefined) {
+      return 0;
+    }
+    if (!this.numbers.has(value)) {
+      this.values.push(value);
+      this.numbers.set(value, this.values.length);
+    }
+    return this.numbers.get(value)!;
+  }
+}
+
+/**
+ * `serializeScene` writes a scene as JSON text.
+ *
+ * Cubes are stored as vertical columns: each column is
+ * `[x, z, y, length, color, material, block, y, length, ...]`, listing the
+ * runs of stacked cubes at that `x` and `z` from the bottom up.
+ * `color`, `material` and `block` are 0 for cubes without their own color,
+ * made of `ground`, or that are whole cubes; otherwise they count from 1 into
+ * the `colors` (as `"#rrggbb"`), `materials` and `blocks` lists.
+ *
+ * Version 1 files have none of these, so their runs are just `y, length`,
+ * version 2 files have no materials, so their runs are `y, length, color`,
+ * and files before version 6 have no blocks.
+ * Custom themes are only saved from version 4 on.
+ */
+export function serializeScene(scene: SavedScene): string {
+  const colors = new Numbering();
+  const materials = new Numbering();
+  const blocks = new Numbering();
+
+  const byColumn = new Map<string, Pt3[]>();
+  for (const cube of scene.cubes) {
+    const k = `${cube.cx};${cube.cz}`;
+    if (!byColumn.has(k)) {
+      byColumn.set(k, []);
+    }
+    byColumn.get(k)!.push(cube);
+  }
+  const columns: number[][] = [];
+  for (const stack of byColumn.values()) {
+    stack.sort((a, b) => a.cy - b.cy);
+    const column = [stack[0].cx, stack[0].cz];
+    for (const cube of stack) {
+      const color = scene.colors.get(cube);
+      const material = scene.materials.get(cube);
+      const run = [
+        colors.number(color && toHex(color)),
+        materials.number(material === "ground" ? undefined : material),
+        blocks.number(scene.blocks.get(cube)),
+      ];
+      const n = column.length;
+      if (
+        n > 2 &&
+        column[n - 5] + column[n - 4] === cube.cy &&
+        run.every((value, i) => column[n - 3 + i] === value)
+      ) {
+        column[n - 4]++;
+      } else {
+        column.push(cube.cy, 1, ...run);
+      }
+    }
+    columns.push(column);
+  }
+  columns.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  return JSON.stringify({
+    format: "barrens-scene",
+    version: SCENE_FILE_VERSION,
+    palette: scene.palette,
+    theme: scene.theme && themeToJSON(scene.theme),
+    seed: scene.seed,
+    view: {
+      rotation: scene.rotation,
+      scale: scene.viewport.scale,
+      x: scene.viewport.x,
+      y: scene.viewport.y,
+      sun: scene.sun,
+    },
+    colors: colors.values,
+    materials: materials.values,
+    blocks: blocks.values,
+    columns,
+  });
+}
+
+/**
+ * `parseSceneFile` reads a scene written by `serializeScene`.
+ * It throws an `Error` that explains what is wrong, and where, if `text`
+ * isn't a valid scene file.
+ */
+export function parseSceneFile(text: string): SavedScene {
+  const reader = new JsonReader("scene file");
+  const { json, version } = reader.header(
+    text,
+    "barrens-scene",
+    SCENE_FILE_VERSION,
+  );
+
+  const palette = reader.field(json, "file", "palette");
+  const savedTheme =
+    version >= 4 ? reader.optional(json, "file", "theme") : undefined;
+  const theme =
+    savedTheme === undefined
+      ? undefined
+      : readTheme(reader, savedTheme, "theme");
+  if (typeof palette !== "string" || !(isBuiltinTheme(palette) || theme)) {
+    return reader.invalid(
+      "palette",
+      `should be one of ${Object.keys(builtinThemes).join(
+        ", ",
+      )}, or saved along with its theme`,
+    );
+  }
+
+  const seed = reader.integer(reader.field(json, "file", "seed"), "seed");
+
+  const view = reader.field(json, "file", "view");
+  const rotation = reader.field(view, "view", "rotation");
+  if (rotation !== 0 && rotation !== 1 && rotation !== 2 && rotation !== 3) {
+    return reader.invalid("view.rotation", "should be 0, 1, 2 or 3");
+  }
+  const scale = reader.number(
+    reader.field(view, "view", "scale"),
+    "view.scale",
+  );
+  if (scale <= 0) {
+    return reader.invalid("view.scale", "should be positive");
+  }
+  const viewport = new Viewport(
+    scale,
+    reader.number(reader.field(view, "view", "x"), "view.x"),
+    reader.number(reader.field(view, "view", "y"), "view.y"),
+  );
+  const sunValue = reader.field(view, "view", "sun");
+  const sun: Sun = {
+    azimuth: reader.number(
+      reader.field(sunValue, "view.sun", "azimuth"),
+      "view.sun.azimuth",
+    ),
+    elevation: reader.number(
+      reader.field(sunValue, "view.sun", "elevation"),
+      "view.sun.elevation",
+    ),
+    softness: reader.number(
+      reader.field(sunValue, "view.sun", "softness"),
+      "view.sun.softness",
+    ),
+  };
+
+  const colorList =
+    version >= 2
+      ? reader
+          .array(reader.field(json, "file", "colors"), "colors")
+          .map((hex, i) => reader.color(hex, `colors[${i}]`))
+      : [];
+
+  const names: MaterialName[] = [];
+  if (version >= 3) {
+    reader
+      .array(reader.field(json, "file", "materials"), "materials")
+      .forEach((name, i) => {
+        if (typeof name !== "string" || !isMaterialName(name)) {
+          reader.invalid(
+            `materials[${i}]`,
+            `should be one of ${Object.keys(materialList).join(", ")}`,
+          );
+        }
+        names.push(name as MaterialName);
+      });
+  }
+
+  const shapes: BlockName[] = [];
+  if (version >= 6) {
+    reader
+      .array(reader.field(json, "file", "blocks"), "blocks")
+      .forEach((name, i) => {
+        if (!blockNames.includes(name as BlockName)) {
+          reader.invalid(
+            `blocks[${i}]`,
+            `should be one of ${blockNames.join(", ")}`,
+          );
+        }
+        shapes.push(name as BlockName);
+      });
+  }
+
+  const cubes = new Set<Pt3>();
+  const materials = new Map<Pt3, MaterialName>();
+  const colors = new Map<Pt3, RGB>();
+  const blocks = new Map<Pt3, BlockName>();
+  const run = version >= 6 ? 5 : Math.min(version, 3) + 1;
+  const shape = [
+    "[x, z, y, length, ...]",
+    "[x, z, y, length, color, ...]",
+    "[x, z, y, length, color, material, ...]",
+    "[x, z, y, length, color, material, block, ...]",
+  ][run - 2];
+  // Every run is checked before any cubes are made, so that files with too
+  // many cubes are turned down quickly.
+  const runs: {
+    x: number;
+    y: number;
+    z: number;
+    length: number;
+    color: number;
+    material: number;
+    block: number;
+  }[] = [];
+  let total = 0;
+  reader
+    .array(reader.field(json, "file", "columns"), "columns")
+    .forEach((value, i) => {
+      const path = `columns[${i}]`;
+      const column = reader.array(value, path);
+      if (column.length < 2 + run || (column.length - 2) % run !== 0) {
+        reader.invalid(path, `should be ${shape} with at least one run`);
+      }
+      const [x, z] = [
+        reader.integer(column[0], path),
+        reader.integer(column[1], path),
+      ];
+      for (let r = 2; r < column.length; r += run) {
+        const y = reader.integer(column[r], `${path}[${r}]`);
+        const length = reader.integer(column[r + 1], `${path}[${r + 1}]`);
+        if (length < 1) {
+          reader.invalid(
+            `${path}[${r + 1}]`,
+            "should be a positive run length",
+          );
+        }
+        if (length > MAX_RUN_LENGTH) {
+          reader.invalid(
+            `${path}[${r + 1}]`,
+            `should be a run length of at most ${MAX_RUN_LENGTH}`,
+          );
+        }
+        total += length;
+        if (total > MAX_CUBES) {
+          reader.invalid("columns", `should hold at most ${MAX_CUBES} cubes`);
+        }
+        const color =
+          run >= 3 ? reader.integer(column[r + 2], `${path}[${r + 2}]`) : 0;
+        if (color < 0 || color > colorList.length) {
+          reader.invalid(
+            `${path}[${r + 2}]`,
+            `should be 0 or a color number from 1 to ${colorList.length}`,
+          );
+        }
+        const material =
+          run >= 4 ? reader.integer(column[r + 3], `${path}[${r + 3}]`) : 0;
+        if (material < 0 || material > names.length) {
+          reader.invalid(
+            `${path}[${r + 3}]`,
+            `should be 0 or a material number from 1 to ${names.length}`,
+          );
+        }
+        const block =
+          run === 5 ? reader.integer(column[r + 4], `${path}[${r + 4}]`) : 0;
+        if (block < 0 || block > shapes.length) {
+          reader.invalid(
+            `${path}[${r + 4}]`,
+            `should be 0 or a block number from 1 to ${shapes.length}`,
+          );
+        }
+        runs.push({ x, y, z, length, color, material, block });
+      }
+    });
+  for (const { x, y, z, length, color, material, block } of runs) {
+    for (let dy = 0; dy < length; dy++) {
+      const cube = pt3(x, y + dy, z);
+      cubes.add(cube);
+      if (color) {
+        colors.set(cube, colorList[color - 1]);
+      }
+      if (material && names[material - 1] !== "ground") {
+        materials.set(cube, names[material - 1]);
+      }
+      if (block) {
+        blocks.set(cube, shapes[block - 1]);
+      }
+    }
+  }
+
+  return {
+    cubes,
+    materials,
+    colors,
+    blocks,
+    palette,
+    theme,
+    seed,
+    rotation,
+    viewport,
+    sun,
+  };
+}
@@ -0,0 +1,143 @@
+import { BlockName, blockNames } from "./blocks";
+import { RGB, surfaceColors } from "./color";
+import { buildDisplayList, IncrementalDisplayList } from "./displayList";
+import { pt3, Pt3, Viewport } from "./geometry";
+import { MaterialName } from "./materials";
+import { Random } from "./random";
+import { rasterizeDisplayList } from "./raster";
+import { SceneModel } from "./sceneModel";
+import { ShadeOptions, shadeScene } from "./shading";
+import { box, sphere } from "./shapes";
+
+const viewport = new Viewport(12, 120, 130);
+
+function tower() {
+  const cubes = box(0, 0, 0, 6, 0, 6).union(sphere(3, 3, 3, 2)).cubes();
+  const materials = new Map<Pt3, MaterialName>(
+    [...cubes].filter(c => c.cy === 0).map(c => [c, "water"]),
+  );
+  return {
+    cubes,
+    materials,
+    colors: new Map<Pt3, RGB>(),
+    blocks: new Map<Pt3, BlockName>(),
+  };
+}
+
+type Scene = ReturnType<typeof tower>;
+
+/**
+ * `randomEdit` adds, removes, repaints or reshapes a cube near the tower,
+ * both in `model` and in `scene`.
+ */
+function randomEdit(model: SceneModel, scene: Scene, rng: Random) {
+  const cube = pt3(rng.between(-1, 7), rng.between(0, 6), rng.between(-1, 7));
+  scene.materials.delete(cube);
+  scene.colors.delete(cube);
+  scene.blocks.delete(cube);
+  switch (rng.between(0, 4)) {
+    case 0:
+      model.delete(cube);
+      scene.cubes.delete(cube);
+      return;
+    case 1:
+      model.set(cube, "snow");
+      scene.materials.set(cube, "snow");
+      break;
+    case 2:
+      model.set(cube, undefined, [0.2, 0.4, 0.9]);
+      scene.colors.set(cube, [0.2, 0.4, 0.9]);
+      break;
+    case 3: {
+      const block = rng.choose(blockNames);
+      model.set(cube, undefined, undefined, block);
+      scene.blocks.set(cube, block);
+      break;
+    }
+    default:
+      model.set(cube);
+  }
+  scene.cubes.add(cube);
+}
+
+for (const [name, options] of [
+  ["a hard sun", { rotation: 1 }],
+  ["a soft sun", { sun: { azimuth: 200, elevation: 35, softness: 4 } }],
+] as [string, ShadeOptions][]) {
+  test(`editing a model matches shading it again, with ${name}`, () => {
+    const rng = new Random(5);
+    const scene = tower();
+    const model = new SceneModel(scene.cubes, surfaceColors.desert_stone, rng, {
+      ...options,
+      materials: scene.materials,
+      colors: scene.colors,
+      blocks: scene.blocks,
+    });
+    const display = new IncrementalDisplayList(model.mesh, rng, viewport);
+    for (let edit = 0; edit < 16; edit++) {
+      randomEdit(model, scene, rng);
+      const before = display.list;
+      const changed = display.update(model.mesh, model.flush());
+
+      const mesh = shadeScene(scene.cubes, surfaceColors.desert_stone, rng, {
+        ...options,
+        materials: scene.materials,
+        colors: scene.colors,
+        blocks: scene.blocks,
+      });
+      expect(model.mesh).toEqual(mesh);
+      const list = buildDisplayList(mesh, rng, viewport);
+      expect(display.list).toEqual(list);
+
+      // Only pixels in the changed area look any different.
+      const size = { width: 240, height: 240, scale: 1 };
+      const a = rasterizeDisplayList(before, size);
+      const b = rasterizeDisplayList(list, size);
+      for (let y = 0; y < size.height; y++) {
+        for (let x = 0; x < size.width; x++) {
+          if (a.get(x, y).join() !== b.get(x, y).join()) {
+            expect(changed).not.toBeNull();
+            expect(x).toBeGreaterThanOrEqual(Math.floor(changed!.x0) - 1);
+            expect(x).toBeLessThanOrEqual(Math.ceil(changed!.x1));
+            expect(y).toBeGreaterThanOrEqual(Math.floor(changed!.y0) - 1);
+            expect(y).toBeLessThanOrEqual(Math.ceil(changed!.y1));
+          }
+        }
+      }
+    }
+  });
+}
+
+test("flushing without edits changes nothing", () => {
+  const { cubes, materials } = tower();
+  const surface = surfaceColors.desert_stone;
+  const model = new SceneModel(cubes, surface, new Random(1), { materials });
+  expect(model.set(pt3(0, 0, 0), "water")).toBe(false);
+  expect(model.delete(pt3(50, 0, 0))).toBe(false);
+  expect(model.flush()).toEqual([]);
+  expect(model.sync(cubes, materials, new Map())).toBe(0);
+
+  model.set(pt3(3, 6, 3));
+  expect(model.flush().length).toBeGreaterThan(0);
+  expect(model.flush()).toEqual([]);
+});
+
+test("cubes far outside the scene are still shadowed", () => {
+  const { cubes, materials } = tower();
+  const options = {
+    materials,
+    sun: { azimuth: 0, elevation: 45, softness: 0 },
+  };
+  const surface = surfaceColors.desert_stone;
+  const model = new SceneModel(cubes, surface, new Random(1), options);
+  // A roof far away and high up, which the shadow map has to grow to hold.
+  const roof = box(-10, 12, -10, 16, 12, 16).cubes();
+  for (const cube of roof) {
+    model.set(cube);
+    cubes.add(cube);
+  }
+  model.flush();
+  expect(model.mesh).toEqual(
+    shadeScene(cubes, surface, new Random(1), options),
+  );
+});
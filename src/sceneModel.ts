@@ -0,0 +1,296 @@
+import { BlockName, blockSurfaces } from "./blocks";
+import { toView, worldNormal } from "./camera";
+import { RGB, Surface } from "./color";
+import { ShadedFace } from "./displayList";
+import { Pt3, TriPt } from "./geometry";
+import { MaterialName } from "./materials";
+import { Face, faceSources, faceTriangles, Mesh } from "./mesh";
+import { Random } from "./random";
+import { CubeShader, cubeShader, ShadeOptions, shadeScene } from "./shading";
+import { DEFAULT_SUN, ShadowMap } from "./shadows";
+
+const FACES: Face[] = ["up", "left", "right"];
+
+const TRIPLET_KEYS = { up: "top", left: "left", right: "right" } as const;
+
+function sameColor(a: RGB | undefined, b: RGB | undefined): boolean {
+  return a === b || (!!a && !!b && a.every((c, i) => c === b[i]));
+}
+
+function sameFace(a: ShadedFace, b: ShadedFace): boolean {
+  return (
+    a.depth === b.depth &&
+    a.cube === b.cube &&
+    a.face === b.face &&
+    a.slot === b.slot &&
+    a.style === b.style &&
+    sameColor(a.color, b.color)
+  );
+}
+
+/**
+ * A `SceneModel` is a scene shaded by `shadeScene` that can then be edited a
+ * few cubes at a time.
+ *
+ * Edits only mark cubes as dirty; `flush` then lights again just the faces
+ * that an edit can have changed (those of the edited cubes, and of cubes
+ * whose sun-rays pass through them) and recomputes just the triangles those
+ * faces cover. The mesh always ends up the same as shading the whole scene
+ * again would make it.
+ */
+export class SceneModel {
+  public readonly mesh: Mesh<ShadedFace>;
+  private readonly cubes: Set<Pt3>;
+  private readonly materials: Map<Pt3, MaterialName>;
+  private readonly colors: Map<Pt3, RGB>;
+  private readonly blocks: Map<Pt3, BlockName>;
+  // `columns` lists the cubes that project onto each point of the triangle
+  // grid, and so can cover each other.
+  private readonly columns = new Map<TriPt, Pt3[]>();
+  // `dirty` holds the cubes edited since the last `flush`, and whether each
+  // was added or removed rather than just changed.
+  private readonly dirty = new Map<Pt3, boolean>();
+  private lit: { shadows: ShadowMap; shade: CubeShader };
+
+  constructor(
+    cubes: Set<Pt3>,
+    private readonly surface: Surface,
+    private readonly rng: Random,
+    private readonly options: ShadeOptions = {},
+  ) {
+    this.cubes = new Set(cubes);
+    this.materials = new Map(options.materials || []);
+    this.colors = new Map(options.colors || []);
+    this.blocks = new Map(options.blocks || []);
+    this.mesh = shadeScene(this.cubes, surface, rng, {
+      ...options,
+      materials: this.materials,
+      colors: this.colors,
+      blocks: this.blocks,
+    });
+    this.lit = this.light();
+    for (const cube of this.cubes) {
+      this.column(cube).push(cube);
+    }
+  }
+
+  private light(): { shadows: ShadowMap; shade: CubeShader } {
+    const shadows = new ShadowMap(this.cubes, this.options.sun || DEFAULT_SUN);
+    return {
+      shadows,
+      shade: cubeShader(this.cubes, shadows, this.surface, this.rng, {
+        ...this.options,
+        materials: this.materials,
+        colors: this.colors,
+        blocks: this.blocks,
+      }),
+    };
+  }
+
+  private view(cube: Pt3): Pt3 {
+    return toView(cube, this.options.rotation || 0);
+  }
+
+  private column(cube: Pt3): Pt3[] {
+    const t = this.view(cube).tri();
+    let column = this.columns.get(t);
+    if (!column) {
+      column = [];
+      this.columns.set(t, column);
+    }
+    return column;
+  }
+
+  /**
+   * `set` adds `cube` to the scene, or changes what an existing cube is made
+   * of or its shape (a whole cube unless `block` is given). It returns
+   * whether anything changed.
+   */
+  set(
+    cube: Pt3,
+    material?: MaterialName,
+    color?: RGB,
+    block?: BlockName,
+  ): boolean {
+    const added = !this.cubes.has(cube);
+    if (
+      !added &&
+      this.materials.get(cube) === material &&
+      sameColor(this.colors.get(cube), color) &&
+      this.blocks.get(cube) === block
+    ) {
+      return false;
+    }
+    if (added) {
+      this.cubes.add(cube);
+      this.column(cube).push(cube);
+    }
+    if (material) {
+      this.materials.set(cube, material);
+    } else {
+      this.materials.delete(cube);
+    }
+    if (color) {
+      this.colors.set(cube, color);
+    } else {
+      this.colors.delete(cube);
+    }
+    if (block) {
+      this.blocks.set(cube, block);
+    } else {
+      this.blocks.delete(cube);
+    }
+    this.dirty.set(cube, added || !!this.dirty.get(cube));
+    return true;
+  }
+
+  /**
+   * `delete` removes `cube` from the scene. It returns whether it was there.
+   */
+  delete(cube: Pt3): boolean {
+    if (!this.cubes.delete(cube)) {
+      return false;
+    }
+    this.materials.delete(cube);
+    this.colors.delete(cube);
+    this.blocks.delete(cube);
+    const column = this.column(cube);
+    column.splice(column.indexOf(cube), 1);
+    this.dirty.set(cube, true);
+    return true;
+  }
+
+  /**
+   * `sync` edits the scene to hold exactly `cubes`, made of `materials`,
+   * painted in `colors` and shaped like `blocks`. It returns how many cubes
+   * it changed.
+   */
+  sync(
+    cubes: Set<Pt3>,
+    materials: Map<Pt3, MaterialName>,
+    colors: Map<Pt3, RGB>,
+    blocks: Map<Pt3, BlockName> = new Map(),
+  ): number {
+    let edits = 0;
+    for (const cube of cubes) {
+      if (
+        this.set(cube, materials.get(cube), colors.get(cube), blocks.get(cube))
+      ) {
+        edits++;
+      }
+    }
+    for (const cube of [...this.cubes]) {
+      if (!cubes.has(cube)) {
+        this.delete(cube);
+        edits++;
+      }
+    }
+    return edits;
+  }
+
+  /**
+   * `flush` brings `mesh` up to date with the edits made since it was last
+   * called, and returns the triangles whose values changed.
+   *
+   * Besides the edited cubes, faces are lit again if the sun-rays reaching
+   * them pass through a cube that was added or removed, or if one next to
+   * them (which shades their corners) was.
+   */
+  flush(): [TriPt, "left" | "right"][] {
+    const moved = [...this.dirty].filter(([, m]) => m).map(([cube]) => cube);
+    if (!moved.every(cube => this.lit.shadows.update(cube))) {
+      this.lit = this.light();
+    }
+
+    // Faces are lit by the sun-rays cast from the cell in front of them.
+    const rotation = this.options.rotation || 0;
+    const normals = [
+      [0, 1, 0],
+      worldNormal("left", rotation),
+      worldNormal("right", rotation),
+    ];
+    const relit = new Set(this.dirty.keys());
+    for (const cube of moved) {
+      for (const dx of [-1, 0, 1]) {
+        for (const dy of [-1, 0, 1]) {
+          for (const dz of [-1, 0, 1]) {
+            const near = cube.shift(dx, dy, dz);
+            if (this.cubes.has(near)) {
+              relit.add(near);
+            }
+          }
+        }
+      }
+      for (const from of this.lit.shadows.startsThrough(cube)) {
+        for (const [dx, dy, dz] of normals) {
+          const lit = from.shift(-dx, -dy, -dz);
+          if (this.cubes.has(lit)) {
+            relit.add(lit);
+          }
+        }
+      }
+    }
+    this.dirty.clear();
+
+    const triangles = { left: new Set<TriPt>(), right: new Set<TriPt>() };
+    for (const cube of relit) {
+      const c = this.view(cube).tri();
+      for (const face of FACES) {
+        for (const [t, side] of faceTriangles(c, face)) {
+          triangles[side].add(t);
+        }
+      }
+    }
+
+    const shaded = new Map<Pt3, ReturnType<CubeShader>>();
+    const changed: [TriPt, "left" | "right"][] = [];
+    for (const side of ["left", "right"] as const) {
+      for (const t of triangles[side]) {
+        // The nearest cube covering a triangle is the one shown there.
+        let nearest: {
+          cube: Pt3;
+          depth: number;
+          face: Face;
+          half: 0 | 1;
+        } | null = null;
+        for (const { c, face, half } of faceSources(t, side)) {
+          for (const cube of this.columns.get(c) || []) {
+            const block = this.blocks.get(cube);
+            if (
+              block &&
+              !blockSurfaces(block, rotation)[TRIPLET_KEYS[face]][half]
+            ) {
+              continue;
+            }
+            const depth = this.view(cube).depth();
+            if (!nearest || depth < nearest.depth) {
+              nearest = { cube, depth, face, half };
+            }
+          }
+        }
+        const old = this.mesh.get(t, side);
+        if (!nearest) {
+          if (old) {
+            this.mesh[side].delete(t);
+            changed.push([t, side]);
+          }
+          continue;
+        }
+        let faces = shaded.get(nearest.cube);
+        if (!faces) {
+          faces = this.lit.shade(nearest.cube);
+          shaded.set(nearest.cube, faces);
+        }
+        const value = {
+          depth: nearest.depth,
+          ...faces[TRIPLET_KEYS[nearest.face]][nearest.half]!,
+        };
+        if (!old || !sameFace(old, value)) {
+          this.mesh.set(t, side, value);
+          changed.push([t, side]);
+        }
+      }
+    }
+    return changed;
+  }
+}
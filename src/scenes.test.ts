@@ -0,0 +1,107 @@
+import { surfaceColors } from "./color";
+import { pt3, Pt3 } from "./geometry";
+import { Random } from "./random";
+import { DEFAULT_TERRAIN, terrain } from "./scenes";
+import { renderScene } from "./shading";
+
+/**
+ * `columnTops` returns the highest cube of every column, by `"x;z"`.
+ */
+function columnTops(cubes: Set<Pt3>): Map<string, number> {
+  const tops = new Map<string, number>();
+  for (const { cx, cy, cz } of cubes) {
+    const k = `${cx};${cz}`;
+    tops.set(k, Math.max(tops.has(k) ? tops.get(k)! : -Infinity, cy));
+  }
+  return tops;
+}
+
+test("terrain covers the map, flooding everything below the water", () => {
+  const settings = { ...DEFAULT_TERRAIN, size: 24, waterLevel: 0 };
+  const { cubes, materials } = terrain(new Random(3), settings);
+  const tops = columnTops(cubes);
+  expect(tops.size).toBe(24 * 24);
+  for (const [k, top] of tops) {
+    const [x, z] = k.split(";").map(Number);
+    expect(x >= -12 && x < 12 && z >= -12 && z < 12).toBe(true);
+    expect(top).toBeGreaterThanOrEqual(0);
+    if (top === 0) {
+      const material = materials.get(pt3(x, 0, z));
+      expect(material === "water" || material === "sand").toBe(true);
+    }
+  }
+  expect([...materials.values()]).toContain("water");
+});
+
+test("terrain settings change the landscape", () => {
+  const heights = (settings = DEFAULT_TERRAIN) => {
+    const tops = [...columnTops(terrain(new Random(4), settings).cubes)];
+    return tops.map(([, top]) => top);
+  };
+  const range = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const flat = { ...DEFAULT_TERRAIN, waterLevel: -100 };
+
+  expect(heights(flat)).toEqual(heights(flat));
+  expect(range(heights({ ...flat, amplitude: 30 }))).toBeGreaterThan(
+    range(heights({ ...flat, amplitude: 4 })),
+  );
+  expect(heights({ ...flat, octaves: 1 })).not.toEqual(heights(flat));
+  expect(heights({ ...flat, frequency: 0.1 })).not.toEqual(heights(flat));
+});
+
+test("terrain leaves out cubes that can't be seen from any side", () => {
+  const { cubes } = terrain(new Random(5));
+  const tops = columnTops(cubes);
+  const size = DEFAULT_TERRAIN.size;
+  let solid = 0;
+  for (const top of tops.values()) {
+    solid += top + Math.ceil(DEFAULT_TERRAIN.amplitude) + 2;
+  }
+  expect(cubes.size).toBeLessThan(solid / 2);
+
+  // Every column still reaches down to its lowest neighbour, leaving no gaps.
+  for (const cube of cubes) {
+    for (const [dx, dz] of [
+      [1, 0],
+      [-1, 0],
+      [0, 1],
+      [0, -1],
+    ]) {
+      const k = `${cube.cx + dx};${cube.cz + dz}`;
+      if (tops.has(k) && tops.get(k)! < cube.cy) {
+        for (let y = tops.get(k)! + 1; y <= cube.cy; y++) {
+          expect(cubes.has(pt3(cube.cx, y, cube.cz))).toBe(true);
+        }
+      }
+    }
+  }
+  expect(tops.size).toBe(size * size);
+});
+
+test("smoothed terrain has slopes on top, made of the land below", () => {
+  const settings = { ...DEFAULT_TERRAIN, size: 24, waterLevel: 0 };
+  const plain = terrain(new Random(3), settings);
+  const smooth = terrain(new Random(3), { ...settings, smooth: true });
+  expect(plain.blocks).toBeUndefined();
+  expect(smooth.blocks!.size).toBeGreaterThan(0);
+  expect(smooth.cubes.size).toBe(plain.cubes.size + smooth.blocks!.size);
+  for (const cell of smooth.blocks!.keys()) {
+    const below = cell.shift(0, -1, 0);
+    expect(plain.cubes.has(cell)).toBe(false);
+    expect(plain.cubes.has(below)).toBe(true);
+    expect(smooth.materials.get(cell)).toBe(plain.materials.get(below));
+    expect(smooth.materials.get(cell)).not.toBe("water");
+  }
+});
+
+test("the same seed always builds and draws the same scene", () => {
+  const draw = (seed: number) =>
+    renderScene(
+      terrain(new Random(seed), { ...DEFAULT_TERRAIN, size: 12 }).cubes,
+      surfaceColors.blossoms,
+      seed,
+    );
+  const picture = draw(2);
+  expect(draw(2)).toEqual(picture);
+  expect(draw(3)).not.toEqual(picture);
+});
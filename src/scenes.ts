@@ -0,0 +1,193 @@
+import { BlockName, smoothSteps } from "./blocks";
+import { Pt3, pt3 } from "./geometry";
+import { MaterialName } from "./materials";
+import { GradientNoise } from "./noise";
+import { Random } from "./random";
+import { box, Shape, union } from "./shapes";
+
+/**
+ * A `Scene` is a set of cubes, and what they are made of.
+ * Cubes missing from `materials` are made of `ground`, and cubes missing from
+ * `blocks` are whole cubes.
+ */
+export type Scene = {
+  cubes: Set<Pt3>;
+  materials: Map<Pt3, MaterialName>;
+  blocks?: Map<Pt3, BlockName>;
+};
+
+/**
+ * `TerrainSettings` shape the landscapes made by `terrain`:
+ * - `size` is how many columns wide and deep the map is;
+ * - `octaves` is how many layers of ever finer noise are added together;
+ * - `frequency` is how many hills there are per column, before octaves;
+ * - `amplitude` is how far the land rises above (and sinks below) y = 0;
+ * - `waterLevel` is the height that lower land is flooded up to;
+ * - `smooth` turns the steps between columns into slopes (see
+ *   `smoothSteps`).
+ */
+export type TerrainSettings = {
+  size: number;
+  octaves: number;
+  frequency: number;
+  amplitude: number;
+  waterLevel: number;
+  smooth: boolean;
+};
+
+export const DEFAULT_TERRAIN: TerrainSettings = {
+  size: 64,
+  octaves: 4,
+  frequency: 0.03,
+  amplitude: 16,
+  waterLevel: -2,
+  smooth: false,
+};
+
+/**
+ * `terrain` builds a landscape from a heightmap of fractional Brownian motion
+ * noise (see `GradientNoise.fbm`), flooding everything below the water level.
+ *
+ * Columns are only filled as deep as they can be seen from beside them: the
+ * edges of the map are solid down to the lowest possible height, but inside
+ * it, the ground below the lowest neighbouring column is left out.
+ * The land is sand near the water, rock on the mountainsides and snow on the
+ * peaks. Smoothed terrain has slopes on top of it, made of the same land.
+ */
+export function terrain(
+  rng: Random,
+  settings: TerrainSettings = DEFAULT_TERRAIN,
+): Scene {
+  const { size, octaves, frequency, amplitude, waterLevel, smooth } = settings;
+  const noise = new GradientNoise(rng);
+  const half = Math.floor(size / 2);
+  const bottom = -Math.ceil(amplitude) - 1;
+
+  const ground = new Map<string, number>();
+  const groundAt = (x: number, z: number) => {
+    const k = `${x};${z}`;
+    if (!ground.has(k)) {
+      const h = noise.fbm(x * frequency, z * frequency, octaves);
+      ground.set(k, Math.max(bottom, Math.round(h * amplitude)));
+    }
+    return ground.get(k)!;
+  };
+  // The top of each column, including any water over it; columns outside
+  // the map are empty.
+  const topAt = (x: number, z: number) =>
+    x < -half || x >= size - half || z < -half || z >= size - half
+      ? bottom - 1
+      : Math.max(groundAt(x, z), waterLevel);
+
+  const cubes = new Set<Pt3>();
+  const materials = new Map<Pt3, MaterialName>();
+  const rock = amplitude * 0.25;
+  const snow = amplitude * 0.4;
+  for (let x = -half; x < size - half; x++) {
+    for (let z = -half; z < size - half; z++) {
+      const top = topAt(x, z);
+      const lowest = Math.min(
+        topAt(x - 1, z),
+        topAt(x + 1, z),
+        topAt(x, z - 1),
+        topAt(x, z + 1),
+      );
+      for (let y = Math.min(top, lowest + 1); y <= top; y++) {
+        const cube = pt3(x, y, z);
+        cubes.add(cube);
+        if (y > groundAt(x, z)) {
+          materials.set(cube, "water");
+        } else if (y <= waterLevel + 1) {
+          materials.set(cube, "sand");
+        } else if (y > snow) {
+          materials.set(cube, "snow");
+        } else if (y > rock) {
+          materials.set(cube, "stone");
+        }
+      }
+    }
+  }
+  if (!smooth) {
+    return { cubes, materials };
+  }
+  // Slopes are made of the land they lie on, and never lean on water.
+  const blocks = smoothSteps(cubes, cube => materials.get(cube) !== "water");
+  for (const cell of blocks.keys()) {
+    cubes.add(cell);
+    const below = materials.get(cell.shift(0, -1, 0));
+    if (below) {
+      materials.set(cell, below);
+    }
+  }
+  return { cubes, materials, blocks };
+}
+
+/**
+ * `layered` builds a scene from layers of shapes, each made of one material.
+ * Later layers replace the cubes of earlier ones where they overlap.
+ */
+function layered(...layers: [Shape, MaterialName][]): Scene {
+  const cubes = new Set<Pt3>();
+  const materials = new Map<Pt3, MaterialName>();
+  for (const [shape, material] of layers) {
+    for (const cube of shape.cubes()) {
+      cubes.add(cube);
+      if (material === "ground") {
+        materials.delete(cube);
+      } else {
+        materials.set(cube, material);
+      }
+    }
+  }
+  return { cubes, materials };
+}
+
+export const scenes = {
+  canyon_city: (rng: Random): Scene => {
+    const blocks: Shape[] = [];
+    for (let i = 0; i < 100; i++) {
+      const cx = rng.between(-30, 30);
+      const cz = rng.between(-30, 30);
+      const size = rng.choose([1, 1, 1, 1, 1, 3]);
+      const block = box(
+        cx - size,
+        1,
+        cz - size,
+        cx + size,
+        2 * size + 1,
+        cz + size,
+      );
+      // Each block has two tunnels crossing underneath its center.
+      const tunnels = union(
+        box(cx, 1, cz - size, cx, size, cz + size),
+        box(cx - size, 1, cz, cx + size, size, cz),
+      );
+      blocks.push(block.subtract(tunnels));
+    }
+    const wall = box(4, -20, -40, 4, 0, 40);
+    return layered([
+      union(box(-30, 0, -30, 30, 0, 30), ...blocks, wall, wall.mirror("x"))
+        // The canyon runs north to south through the middle of the city.
+        .subtract(box(-3, -20, -40, 3, 20, 40)),
+      "ground",
+    ]);
+  },
+
+  island: (rng: Random): Scene => {
+    const towers: Shape[] = [];
+    for (let i = 0; i < 20; i++) {
+      const x = rng.between(-6, 6);
+      const z = rng.between(-6, 6);
+      towers.push(box(x, 1, z, x, rng.between(1, 6), z));
+    }
+    return layered(
+      [box(-40, -4, -40, 40, -4, 40), "water"],
+      [box(-6, -6, -6, 6, 0, 6), "ground"],
+      // The shore, just above the water, is a sandy beach.
+      [box(-6, -6, -6, 6, -2, 6).subtract(box(-5, -6, -5, 5, -2, 5)), "sand"],
+      [union(...towers), "stone"],
+    );
+  },
+
+  terrain: (rng: Random): Scene => terrain(rng),
+};
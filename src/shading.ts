@@ -0,0 +1,313 @@
+import { BlockName, blockSurfaces } from "./blocks";
+import { Rotation, toView, toWorldVector, worldNormal } from "./camera";
+import { perturbColor, RGB, Surface } from "./color";
+import { buildDisplayList, DisplayList, ShadedFace } from "./displayList";
+import { DEFAULT_VIEWPORT, Pt3, Viewport } from "./geometry";
+import { MaterialName, materials, materialSurface } from "./materials";
+import { cubeDepth, Face, FacePair, Mesh, Triplet } from "./mesh";
+import { faceOcclusion } from "./occlusion";
+import { OutlineStyle } from "./outlines";
+import { Random } from "./random";
+import { DEFAULT_SUN, ShadowMap, Sun, sunDirection } from "./shadows";
+import { Fog, fogged } from "./sky";
+
+/**
+ * `sunlight` returns the extra lightness a face gets from the sun: none if
+ * the face points away from the sun, and less the more of the sun is hidden
+ * behind other cubes.
+ * `normal` is the world-space direction the face points in, and `toSun` the
+ * direction towards the center of the sun.
+ */
+function sunlight(
+  shadows: ShadowMap,
+  toSun: [number, number, number],
+  cube: Pt3,
+  normal: [number, number, number],
+): number {
+  const facing =
+    normal[0] * toSun[0] + normal[1] * toSun[1] + normal[2] * toSun[2];
+  if (facing < 0) {
+    return 0;
+  }
+  return 0.3 * (1 - shadows.shadow(cube.shift(...normal)));
+}
+
+/**
+ * `AMBIENT_OCCLUSION` is how much lightness a face loses when it is fully
+ * surrounded by other cubes (see `faceOcclusion`).
+ */
+const AMBIENT_OCCLUSION = 0.3;
+
+/**
+ * `litColor` shades a cube's own color: `brightness` is how bright the face
+ * is without sunlight, and `light` comes from `sunlight`.
+ */
+function litColor(color: RGB, brightness: number, light: number): RGB {
+  const k = brightness + light;
+  return [color[0] * k, color[1] * k, color[2] * k];
+}
+
+/**
+ * `ShadeOptions` are the optional settings for `shadeScene`:
+ * - `rotation` is how the camera is turned (see `toView`);
+ * - `sun` is where the light comes from, in world space;
+ * - `materials` says what each cube is made of (`ground` by default);
+ * - `colors` gives some cubes (such as imported voxel models) their own
+ *   color, which they are painted in plainly instead of their material's;
+ * - `blocks` gives some cells another shape than a whole cube (see
+ *   `blockSurfaces`);
+ * - `tint` multiplies every face's color, to color the light by the time of
+ *   day (see `tintAt`);
+ * - `fog` fades faces into the fog's color the further they are from the
+ *   camera (before tinting, so the fog is tinted too);
+ * - `onProgress` is called every so often with the fraction of the cubes
+ *   that have been shaded.
+ */
+export type ShadeOptions = {
+  rotation?: Rotation;
+  sun?: Sun;
+  materials?: Map<Pt3, MaterialName>;
+  colors?: Map<Pt3, RGB>;
+  blocks?: Map<Pt3, BlockName>;
+  tint?: RGB;
+  fog?: Fog;
+  onProgress?: (fraction: number) => void;
+};
+
+/**
+ * A `CubeShader` lights the three visible faces of a cube, with a color for
+ * each of the two triangles of each face, or `null` for the triangles that
+ * a block leaves empty.
+ */
+export type CubeShader = (
+  cube: Pt3,
+) => Triplet<FacePair<Omit<ShadedFace, "depth"> | null>>;
+
+/**
+ * `cubeShader` makes the `CubeShader` that `shadeScene` uses, for the scene
+ * made of `cubes`, whose sunlight is blocked according to `shadows`.
+ *
+ * Lighting happens in world space, so turning the camera doesn't change the
+ * color of any face: the `left` gradient is used for faces pointing along
+ * the x axis, and the `right` gradient for faces pointing along the z axis.
+ * Materials without colors of their own use the `surface` palette.
+ * Faces are darker where other cubes crowd around them (see
+ * `faceOcclusion`), which moves them down their gradient like shade does.
+ * The slopes of blocks are colored like tops, but lit by the sun according
+ * to the way they face; blocks still cast shadows and crowd their neighbours
+ * like whole cubes.
+ */
+export function cubeShader(
+  cubes: Set<Pt3>,
+  shadows: ShadowMap,
+  surface: Surface,
+  rng: Random,
+  {
+    rotation = 0,
+    sun = DEFAULT_SUN,
+    materials: cubeMaterials = new Map(),
+    colors = new Map(),
+    blocks = new Map(),
+    tint,
+    fog,
+  }: ShadeOptions = {},
+): CubeShader {
+  const toSun = sunDirection(sun.azimuth, sun.elevation);
+  const materialOf = (cube: Pt3) => cubeMaterials.get(cube) || "ground";
+
+  const side = (
+    cube: Pt3,
+    face: "left" | "right",
+    occlusion: number,
+  ): Omit<ShadedFace, "depth"> => {
+    const normal = worldNormal(face, rotation);
+    const light =
+      sunlight(shadows, toSun, cube, normal) - AMBIENT_OCCLUSION * occlusion;
+    const own = colors.get(cube);
+    if (own) {
+      return {
+        cube,
+        face,
+        style: "stone",
+        color: litColor(own, normal[0] !== 0 ? 0.55 : 0.65, light),
+      };
+    }
+    const material = materialOf(cube);
+    const colorsOf = materialSurface(material, surface);
+    return {
+      cube,
+      face,
+      style:
+        normal[0] !== 0
+          ? materials[material].styles.left
+          : materials[material].styles.right,
+      color:
+        normal[0] !== 0
+          ? colorsOf.left(light + cube.cx / 30)
+          : colorsOf.right(light + cube.cz / 20 + 0.25),
+    };
+  };
+
+  const top = (
+    cube: Pt3,
+    occlusion: number,
+    normal: [number, number, number] = [0, 1, 0],
+  ): Omit<ShadedFace, "depth"> => {
+    const light =
+      sunlight(shadows, toSun, cube, normal) - AMBIENT_OCCLUSION * occlusion;
+    const own = colors.get(cube);
+    if (own) {
+      return {
+        cube,
+        face: "up",
+        style: "stone",
+        color: litColor(own, 0.75, light),
+      };
+    }
+    const material = materialOf(cube);
+    return {
+      cube,
+      face: "up",
+      style: materials[material].styles.top,
+      color: perturbColor(
+        materialSurface(material, surface).top(light + cube.cy / 20 + 0.08),
+        0.05,
+        rng.fork(cube.cx, cube.cy, cube.cz),
+      ),
+    };
+  };
+
+  const finish = (face: Omit<ShadedFace, "depth">) => {
+    let color = face.color;
+    if (fog) {
+      const depth = toView(face.cube, rotation).depth();
+      color = fogged(color, fog, depth, face.cube.cy);
+    }
+    if (tint) {
+      color = [color[0] * tint[0], color[1] * tint[1], color[2] * tint[2]];
+    }
+    return color === face.color ? face : { ...face, color };
+  };
+
+  return cube => {
+    const near = new Map<Pt3, boolean>();
+    const occupied = (offset: Pt3) => {
+      let found = near.get(offset);
+      if (found === undefined) {
+        const [dx, dy, dz] = toWorldVector(
+          [offset.cx, offset.cy, offset.cz],
+          rotation,
+        );
+        found = cubes.has(cube.shift(dx, dy, dz));
+        near.set(offset, found);
+      }
+      return found;
+    };
+    const block = blocks.get(cube);
+    const surfaces = block && blockSurfaces(block, rotation);
+    const pair = (
+      face: Face,
+      key: keyof Triplet<unknown>,
+    ): FacePair<Omit<ShadedFace, "depth"> | null> => {
+      const occlusion = faceOcclusion(occupied, face);
+      const [first, second] = [0, 1].map(half => {
+        if (!surfaces) {
+          return face === "up"
+            ? top(cube, occlusion[half])
+            : side(cube, face, occlusion[half]);
+        }
+        const seen = surfaces[key][half];
+        if (!seen) {
+          return null;
+        }
+        const shaded =
+          seen.face === "up"
+            ? top(cube, occlusion[half], seen.normal)
+            : side(cube, seen.face, occlusion[half]);
+        return seen.face === face ? shaded : { ...shaded, slot: face };
+      });
+      return [first && finish(first), second && finish(second)];
+    };
+    return {
+      top: pair("up", "top"),
+      right: pair("right", "right"),
+      left: pair("left", "left"),
+    };
+  };
+}
+
+/**
+ * `shadeScene` lights every cube in `cubes` (see `cubeShader`) and stamps its
+ * faces onto a `Mesh`.
+ */
+export function shadeScene(
+  cubes: Set<Pt3>,
+  surface: Surface,
+  rng: Random,
+  options: ShadeOptions = {},
+): Mesh<ShadedFace> {
+  const { rotation = 0, sun = DEFAULT_SUN, onProgress } = options;
+  const depthMesh = new Mesh<ShadedFace>();
+  const shade = cubeShader(
+    cubes,
+    new ShadowMap(cubes, sun),
+    surface,
+    rng,
+    options,
+  );
+  let shaded = 0;
+  cubes.forEach(cube => {
+    if (onProgress && shaded % 1000 === 0) {
+      onProgress(shaded / cubes.size);
+    }
+    shaded++;
+    cubeDepth(depthMesh, toView(cube, rotation), shade(cube));
+  });
+
+  return depthMesh;
+}
+
+/**
+ * `effectRandom` returns the generator that the surface effects of a scene
+ * shaded with `seed` are drawn with.
+ */
+export function effectRandom(seed: number): Random {
+  return new Random(seed).fork(1);
+}
+
+/**
+ * `renderMesh` builds the display list for a mesh made by `shadeScene` with
+ * the same `seed`, outlined if `outline` is given.
+ */
+export function renderMesh(
+  mesh: Mesh<ShadedFace>,
+  seed: number,
+  viewport: Viewport = DEFAULT_VIEWPORT,
+  outline?: OutlineStyle,
+): DisplayList {
+  return buildDisplayList(mesh, effectRandom(seed), viewport, outline);
+}
+
+/**
+ * `renderScene` shades every cube in `cubes` and builds the display list that
+ * draws them through `viewport`, outlined if `outline` is given.
+ * All random variation is derived from `seed`, so the same seed always
+ * produces the same picture.
+ */
+export function renderScene(
+  cubes: Set<Pt3>,
+  surface: Surface,
+  seed: number,
+  {
+    viewport = DEFAULT_VIEWPORT,
+    outline,
+    ...options
+  }: ShadeOptions & { viewport?: Viewport; outline?: OutlineStyle } = {},
+): DisplayList {
+  return renderMesh(
+    shadeScene(cubes, surface, new Random(seed), options),
+    seed,
+    viewport,
+    outline,
+  );
+}
@@ -0,0 +1,141 @@
+import { pt3, Pt3 } from "./geometry";
+import { Random } from "./random";
+import { scenes } from "./scenes";
+import {
+  castSunRay,
+  DEFAULT_SUN,
+  ShadowMap,
+  Sun,
+  sunDirection,
+  sunDirections,
+} from "./shadows";
+
+/**
+ * `rayStarts` lists every cell that `shadeScene` casts sun-rays from: each
+ * cube and its neighbors, plus some cells outside the scene entirely.
+ */
+function rayStarts(cubes: Set<Pt3>): Pt3[] {
+  const starts: Pt3[] = [];
+  for (const cube of cubes) {
+    for (const [dx, dy, dz] of [
+      [0, 0, 0],
+      [0, 1, 0],
+      [1, 0, 0],
+      [-1, 0, 0],
+      [0, 0, 1],
+      [0, 0, -1],
+      [-25, -25, 0],
+    ]) {
+      starts.push(cube.shift(dx, dy, dz));
+    }
+  }
+  return starts;
+}
+
+function expectSameShadows(cubes: Set<Pt3>, sun: Sun = DEFAULT_SUN) {
+  const shadows = new ShadowMap(cubes, sun);
+  const directions = sunDirections(sun);
+  for (const from of rayStarts(cubes)) {
+    const blocked = directions.filter(d => castSunRay(cubes, from, d));
+    expect({ from, shadow: shadows.shadow(from) }).toEqual({
+      from,
+      shadow: blocked.length / directions.length,
+    });
+  }
+}
+
+test("ShadowMap matches castSunRay on every scene", () => {
+  for (const generate of Object.values(scenes)) {
+    expectSameShadows(generate(new Random(1)).cubes);
+  }
+});
+
+test("ShadowMap matches castSunRay on sparse and empty scenes", () => {
+  const rng = new Random(9);
+  const cubes = new Set<Pt3>();
+  for (let i = 0; i < 300; i++) {
+    cubes.add(
+      pt3(rng.between(-10, 10), rng.between(-10, 10), rng.between(-3, 3)),
+    );
+  }
+  expectSameShadows(cubes);
+
+  // Too spread out for an occupancy grid.
+  expectSameShadows(new Set([...cubes, pt3(400, 400, 400)]));
+
+  expect(new ShadowMap(new Set()).shadow(pt3(0, 0, 0))).toBe(0);
+});
+
+test("ShadowMap matches castSunRay for suns in every direction", () => {
+  const rng = new Random(10);
+  const cubes = new Set<Pt3>();
+  for (let i = 0; i < 200; i++) {
+    cubes.add(pt3(rng.between(-8, 8), rng.between(-4, 4), rng.between(-8, 8)));
+  }
+  for (const azimuth of [0, 45, 90, 160, 200, 270, 300]) {
+    for (const elevation of [10, 45, 90]) {
+      expectSameShadows(cubes, { azimuth, elevation, softness: 0 });
+    }
+  }
+  expectSameShadows(cubes, { azimuth: 120, elevation: 30, softness: 10 });
+});
+
+test("the default sun matches the original sun direction", () => {
+  expect(sunDirection(DEFAULT_SUN.azimuth, DEFAULT_SUN.elevation)).toEqual([
+    1,
+    0.95,
+    0,
+  ]);
+});
+
+test("soft suns cast partial shadows at the edge of a shadow", () => {
+  // A roof hanging over the origin, with the sun straight overhead.
+  const roof = new Set<Pt3>();
+  for (let x = -10; x <= 0; x++) {
+    for (let z = -10; z <= 10; z++) {
+      roof.add(pt3(x, 6, z));
+    }
+  }
+  const sun = { azimuth: 0, elevation: 90, softness: 20 };
+  const soft = new ShadowMap(roof, sun);
+  const hard = new ShadowMap(roof, { ...sun, softness: 0 });
+
+  const shadows = [-6, -3, 0, 1, 2, 3, 6].map(x => soft.shadow(pt3(x, 0, 0)));
+  expect(shadows[0]).toBe(1);
+  expect(shadows[shadows.length - 1]).toBe(0);
+  expect(shadows.some(s => s > 0 && s < 1)).toBe(true);
+  for (let i = 1; i < shadows.length; i++) {
+    expect(shadows[i]).toBeLessThanOrEqual(shadows[i - 1]);
+  }
+  expect(hard.shadow(pt3(0, 0, 0))).toBe(1);
+  expect(hard.shadow(pt3(1, 0, 0))).toBe(0);
+});
+
+test("ShadowMap follows cubes being added and removed", () => {
+  const sun = { azimuth: 30, elevation: 40, softness: 3 };
+  const rng = new Random(3);
+  const cubes = new Set<Pt3>();
+  for (let i = 0; i < 300; i++) {
+    cubes.add(pt3(rng.between(-6, 6), rng.between(0, 8), rng.between(-6, 6)));
+  }
+  const shadows = new ShadowMap(cubes, sun);
+  const starts = rayStarts(cubes);
+  for (let edit = 0; edit < 20; edit++) {
+    const cube = rng.choose(cubes);
+    const before = starts.map(from => shadows.shadow(from));
+    cubes.delete(cube);
+    expect(shadows.update(cube)).toBe(true);
+    const fresh = new ShadowMap(cubes, sun);
+    const reached = shadows.startsThrough(cube);
+    starts.forEach((from, i) => {
+      const shadow = shadows.shadow(from);
+      expect(shadow).toBe(fresh.shadow(from));
+      if (shadow !== before[i]) {
+        expect(reached.has(from)).toBe(true);
+      }
+    });
+  }
+  // Cubes outside the bounding box need a new map.
+  cubes.add(pt3(1000, 0, 0));
+  expect(shadows.update(pt3(1000, 0, 0))).toBe(false);
+});
@@ -0,0 +1,276 @@
+import { Pt3, pt3 } from "./geometry";
+
+/**
+ * A `Sun` describes where sunlight comes from, in world space.
+ * `azimuth` is measured in degrees from the x axis towards the z axis, and
+ * `elevation` in degrees above the horizon.
+ * `softness` is the angular radius of the sun in degrees: with a softness of
+ * 0 shadows are hard, and larger suns cast blurrier shadows.
+ */
+export type Sun = {
+  azimuth: number;
+  elevation: number;
+  softness: number;
+};
+
+/**
+ * `DEFAULT_SUN` shines along the x axis, rising 0.95 for every cube it moves.
+ */
+export const DEFAULT_SUN: Sun = {
+  azimuth: 0,
+  elevation: (Math.atan(0.95) * 180) / Math.PI,
+  softness: 0,
+};
+
+/**
+ * `SOFT_SHADOW_RAYS` is how many rays are cast towards a sun with a
+ * non-zero `softness`.
+ */
+const SOFT_SHADOW_RAYS = 8;
+
+/**
+ * `sunDirection` returns the direction towards the sun at the given angles.
+ * It is scaled so that its largest component is 1, so that stepping along
+ * a ray never skips over a cube.
+ */
+export function sunDirection(
+  azimuth: number,
+  elevation: number,
+): [number, number, number] {
+  const a = (azimuth * Math.PI) / 180;
+  const e = (Math.min(Math.max(elevation, 0), 90) * Math.PI) / 180;
+  const v = [Math.cos(a), Math.tan(e), Math.sin(a)];
+  const largest = Math.max(...v.map(Math.abs));
+  return [v[0] / largest, v[1] / largest, v[2] / largest];
+}
+
+/**
+ * `sunDirections` returns the directions of the rays cast towards `sun`.
+ * Soft suns are sampled by rays spread evenly over a disc of directions
+ * around their center, along a sunflower spiral.
+ */
+export function sunDirections(sun: Sun): [number, number, number][] {
+  if (sun.softness <= 0) {
+    return [sunDirection(sun.azimuth, sun.elevation)];
+  }
+  const directions: [number, number, number][] = [];
+  for (let i = 0; i < SOFT_SHADOW_RAYS; i++) {
+    const r = sun.softness * Math.sqrt((i + 0.5) / SOFT_SHADOW_RAYS);
+    const angle = i * Math.PI * (3 - Math.sqrt(5));
+    directions.push(
+      sunDirection(
+        sun.azimuth + r * Math.cos(angle),
+        sun.elevation + r * Math.sin(angle),
+      ),
+    );
+  }
+  return directions;
+}
+
+/**
+ * `castRay` checks whether a sun-ray (starting from the center of a cube) intersects with any cube in a set.
+ * This marches the ray one step at a time; `ShadowMap` gives the same answers
+ * much faster when many rays are cast into the same scene.
+ * @param from
+ */
+export function castSunRay(
+  cubes: Set<Pt3>,
+  from: Pt3,
+  direction = sunDirection(DEFAULT_SUN.azimuth, DEFAULT_SUN.elevation),
+  maxDistance = 20,
+  stepSize = 0.25,
+): boolean {
+  for (let t = 0; t < maxDistance; t += stepSize) {
+    // Rounding the offset rather than the position makes the cells a ray
+    // visits the same wherever it starts.
+    const q = pt3(
+      from.cx + Math.round(t * direction[0]),
+      from.cy + Math.round(t * direction[1]),
+      from.cz + Math.round(t * direction[2]),
+    );
+    if (cubes.has(q)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * `sunRayOffsets` lists the cells visited by `castSunRay`, relative to the
+ * cube it starts from, in the order they are visited.
+ * Cells visited by several steps are only listed once.
+ */
+function sunRayOffsets(
+  direction: [number, number, number],
+  maxDistance: number,
+  stepSize: number,
+): [number, number, number][] {
+  const offsets: [number, number, number][] = [];
+  const seen = new Set<string>();
+  for (let t = 0; t < maxDistance; t += stepSize) {
+    const offset: [number, number, number] = [
+      Math.round(t * direction[0]),
+      Math.round(t * direction[1]),
+      Math.round(t * direction[2]),
+    ];
+    const k = offset.join(";");
+    if (!seen.has(k)) {
+      seen.add(k);
+      offsets.push(offset);
+    }
+  }
+  return offsets;
+}
+
+/**
+ * `MAX_GRID_CELLS` limits the size of the occupancy grid; sparser scenes look
+ * cubes up in their `Set` instead.
+ */
+const MAX_GRID_CELLS = 1 << 24;
+
+/**
+ * A `SunRay` is one of the rays cast towards the sun, with the cells it visits.
+ */
+type SunRay = {
+  direction: [number, number, number];
+  offsets: [number, number, number][];
+};
+
+/**
+ * A `ShadowMap` answers `castSunRay` queries for one set of cubes.
+ *
+ * Every sun-ray visits the same cells relative to its starting cube, so those
+ * are computed once. The cubes are copied into a dense occupancy grid over
+ * their bounding box, and a ray can stop as soon as it leaves that box, since
+ * it never turns back.
+ */
+export class ShadowMap {
+  private readonly rays: SunRay[];
+  private readonly min: [number, number, number] = [0, 0, 0];
+  private readonly max: [number, number, number] = [-1, -1, -1];
+  private readonly size: [number, number, number] = [0, 0, 0];
+  private readonly grid: Uint8Array | null = null;
+
+  constructor(
+    private readonly cubes: Set<Pt3>,
+    sun: Sun = DEFAULT_SUN,
+    maxDistance = 20,
+    stepSize = 0.25,
+  ) {
+    this.rays = sunDirections(sun).map(direction => ({
+      direction,
+      offsets: sunRayOffsets(direction, maxDistance, stepSize),
+    }));
+    if (cubes.size === 0) {
+      return;
+    }
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (const cube of cubes) {
+      const c = [cube.cx, cube.cy, cube.cz];
+      for (let i = 0; i < 3; i++) {
+        min[i] = Math.min(min[i], c[i]);
+        max[i] = Math.max(max[i], c[i]);
+      }
+    }
+    this.min = [min[0], min[1], min[2]];
+    this.max = [max[0], max[1], max[2]];
+    this.size = [max[0] - min[0] + 1, max[1] - min[1] + 1, max[2] - min[2] + 1];
+    if (this.size[0] * this.size[1] * this.size[2] <= MAX_GRID_CELLS) {
+      this.grid = new Uint8Array(this.size[0] * this.size[1] * this.size[2]);
+      for (const cube of cubes) {
+        this.grid[this.index(cube.cx, cube.cy, cube.cz)] = 1;
+      }
+    }
+  }
+
+  private index(x: number, y: number, z: number): number {
+    return (
+      ((x - this.min[0]) * this.size[1] + (y - this.min[1])) * this.size[2] +
+      (z - this.min[2])
+    );
+  }
+
+  /**
+   * `blocked` returns the same result as
+   * `castSunRay(cubes, from, ray.direction)`.
+   */
+  private blocked(ray: SunRay, from: Pt3): boolean {
+    const { min, max } = this;
+    const from3 = [from.cx, from.cy, from.cz];
+    const p = [0, 0, 0];
+    for (const offset of ray.offsets) {
+      let inside = true;
+      for (let i = 0; i < 3; i++) {
+        p[i] = from3[i] + offset[i];
+        if (p[i] < min[i] || p[i] > max[i]) {
+          inside = false;
+          const returning =
+            p[i] < min[i] ? ray.direction[i] > 0 : ray.direction[i] < 0;
+          if (!returning) {
+            return false;
+          }
+        }
+      }
+      if (
+        inside &&
+        (this.grid
+          ? this.grid[this.index(p[0], p[1], p[2])]
+          : this.cubes.has(pt3(p[0], p[1], p[2])))
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * `update` makes the map follow a cube being added to or removed from the
+   * set it was made from, which the caller has already changed.
+   * It returns `false` if the cube is outside the map's bounding box, in
+   * which case the map can't follow and a new one must be made.
+   */
+  update(cube: Pt3): boolean {
+    const c = [cube.cx, cube.cy, cube.cz];
+    for (let i = 0; i < 3; i++) {
+      if (c[i] < this.min[i] || c[i] > this.max[i]) {
+        return false;
+      }
+    }
+    if (this.grid) {
+      this.grid[this.index(cube.cx, cube.cy, cube.cz)] = this.cubes.has(cube)
+        ? 1
+        : 0;
+    }
+    return true;
+  }
+
+  /**
+   * `startsThrough` lists the cells whose rays towards the sun pass through
+   * `cell`: the only ones whose `shadow` can change when a cube is added or
+   * removed there.
+   */
+  startsThrough(cell: Pt3): Set<Pt3> {
+    const starts = new Set<Pt3>();
+    for (const ray of this.rays) {
+      for (const [dx, dy, dz] of ray.offsets) {
+        starts.add(cell.shift(-dx, -dy, -dz));
+      }
+    }
+    return starts;
+  }
+
+  /**
+   * `shadow` returns the fraction of the rays from `from` towards the sun
+   * that are blocked by a cube: 0 in full sunlight and 1 in full shadow.
+   */
+  shadow(from: Pt3): number {
+    let blocked = 0;
+    for (const ray of this.rays) {
+      if (this.blocked(ray, from)) {
+        blocked++;
+      }
+    }
+    return blocked / this.rays.length;
+  }
+}
@@ -0,0 +1,104 @@
+import { pt3 } from "./geometry";
+import {
+  box,
+  cone,
+  cylinder,
+  heightfield,
+  Shape,
+  sphere,
+  union,
+} from "./shapes";
+
+/**
+ * `scan` voxelizes a shape the slow way, by checking every point in its
+ * bounds, to compare against `cubes`.
+ */
+function scan(shape: Shape): string[] {
+  const found: string[] = [];
+  const { min, max } = shape.bounds;
+  for (let x = min[0]; x <= max[0]; x++) {
+    for (let y = min[1]; y <= max[1]; y++) {
+      for (let z = min[2]; z <= max[2]; z++) {
+        if (shape.contains(x, y, z)) {
+          found.push(`${x};${y};${z}`);
+        }
+      }
+    }
+  }
+  return found.sort();
+}
+
+function listed(shape: Shape): string[] {
+  return [...shape.cubes()].map(c => `${c.cx};${c.cy};${c.cz}`).sort();
+}
+
+test("primitives contain the expected number of cubes", () => {
+  expect(box(0, 0, 0, 2, 3, 4).cubes().size).toBe(3 * 4 * 5);
+  expect(box(2, 3, 4, 0, 0, 0).cubes().size).toBe(3 * 4 * 5);
+  expect(sphere(0, 0, 0, 1).cubes().size).toBe(7);
+  expect(sphere(5, 5, 5, 0).cubes()).toEqual(new Set([pt3(5, 5, 5)]));
+  expect(cylinder(0, 0, 0, 9, 1).cubes().size).toBe(5 * 10);
+  const tipped = cone(0, 0, 0, 4, 2);
+  expect(tipped.contains(2, 0, 0)).toBe(true);
+  expect(tipped.contains(2, 1, 0)).toBe(false);
+  expect(tipped.contains(0, 3, 0)).toBe(true);
+  expect(tipped.contains(0, 4, 0)).toBe(false);
+  const hills = heightfield(0, 0, 3, 3, (x, z) => x + z - 1, -1);
+  expect(hills.contains(3, 5, 3)).toBe(true);
+  expect(hills.contains(3, 6, 3)).toBe(false);
+  expect(hills.contains(0, -1, 0)).toBe(true);
+  expect(hills.contains(0, 0, 0)).toBe(false);
+  expect(hills.contains(4, 0, 0)).toBe(false);
+});
+
+test("shapes combine with union, subtract and intersect", () => {
+  const a = box(0, 0, 0, 3, 0, 0);
+  const b = box(2, 0, 0, 5, 0, 0);
+  const xs = (shape: Shape) =>
+    [...shape.cubes()].map(c => c.cx).sort((p, q) => p - q);
+  expect(xs(a.union(b))).toEqual([0, 1, 2, 3, 4, 5]);
+  expect(xs(a.subtract(b))).toEqual([0, 1]);
+  expect(xs(a.intersect(b))).toEqual([2, 3]);
+  expect(xs(a.intersect(box(10, 0, 0, 11, 0, 0)))).toEqual([]);
+  expect(xs(union())).toEqual([]);
+  expect(xs(a.subtract())).toEqual([0, 1, 2, 3]);
+});
+
+test("shapes move with translate and mirror", () => {
+  const step = box(1, 0, 0, 2, 1, 0).union(box(3, 0, 0, 3, 0, 0));
+  expect(listed(step.translate(1, 2, 3))).toEqual(
+    listed(box(2, 2, 3, 3, 3, 3).union(box(4, 2, 3, 4, 2, 3))),
+  );
+  expect(listed(step.mirror("x"))).toEqual(
+    listed(box(-2, 0, 0, -1, 1, 0).union(box(-3, 0, 0, -3, 0, 0))),
+  );
+  expect(listed(step.mirror("y", 2))).toEqual(
+    listed(box(1, 3, 0, 2, 4, 0).union(box(3, 4, 0, 3, 4, 0))),
+  );
+  expect(step.mirror("z", 5).bounds).toEqual({
+    min: [1, 0, 10],
+    max: [3, 1, 10],
+  });
+});
+
+test("listing cubes agrees with checking every point in the bounds", () => {
+  const shapes = [
+    sphere(0, 0, 0, 4.5).subtract(cylinder(0, 0, -5, 5, 2)),
+    box(-5, -5, -5, 5, 5, 5).intersect(
+      sphere(3, 0, 0, 5),
+      cone(0, 0, -5, 9, 6),
+    ),
+    union(
+      cone(0, 0, 0, 6, 3).mirror("y"),
+      heightfield(-3, -3, 3, 3, (x, z) => Math.sin(x) * 3 + z, -2).translate(
+        4,
+        0,
+        -1,
+      ),
+    ).subtract(box(0, -10, 0, 10, 10, 10)),
+  ];
+  for (const shape of shapes) {
+    expect(listed(shape)).toEqual(scan(shape));
+    expect(listed(shape).length).toBeGreaterThan(0);
+  }
+});
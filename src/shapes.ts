@@ -0,0 +1,317 @@
+import { Pt3, pt3 } from "./geometry";
+
+/**
+ * `Bounds` is the range of cube coordinates a shape can cover, inclusive at
+ * both ends. Empty bounds have some `min` greater than its `max`.
+ */
+export type Bounds = {
+  min: [number, number, number];
+  max: [number, number, number];
+};
+
+type Visit = (x: number, y: number, z: number) => void;
+
+/**
+ * A `Shape` is a solid made of whole cubes, described by which cube
+ * coordinates it `contains`. Shapes are built from primitives like `box` and
+ * `sphere`, and combined with the methods below; `cubes` turns them into the
+ * set of cubes that the renderer draws.
+ *
+ * Shapes can also say how to list their cubes more quickly than by checking
+ * every point in their bounds, which keeps unions of many small shapes cheap.
+ */
+export class Shape {
+  constructor(
+    public readonly bounds: Bounds,
+    public readonly contains: (x: number, y: number, z: number) => boolean,
+    private readonly fill?: (visit: Visit) => void,
+  ) {}
+
+  /**
+   * `forEach` calls `visit` with every cube in the shape (possibly more than
+   * once).
+   */
+  public forEach(visit: Visit): void {
+    if (this.fill) {
+      this.fill(visit);
+      return;
+    }
+    const { min, max } = this.bounds;
+    for (let x = min[0]; x <= max[0]; x++) {
+      for (let y = min[1]; y <= max[1]; y++) {
+        for (let z = min[2]; z <= max[2]; z++) {
+          if (this.contains(x, y, z)) {
+            visit(x, y, z);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * `cubes` voxelizes the shape.
+   */
+  public cubes(): Set<Pt3> {
+    const cubes = new Set<Pt3>();
+    this.forEach((x, y, z) => cubes.add(pt3(x, y, z)));
+    return cubes;
+  }
+
+  /**
+   * `union` is the cubes in this shape or any of `others`.
+   */
+  public union(...others: Shape[]): Shape {
+    return union(this, ...others);
+  }
+
+  /**
+   * `subtract` is the cubes in this shape but in none of `others`.
+   */
+  public subtract(...others: Shape[]): Shape {
+    const inOthers = union(...others);
+    return new Shape(
+      this.bounds,
+      (x, y, z) => this.contains(x, y, z) && !inOthers.contains(x, y, z),
+      visit =>
+        this.forEach((x, y, z) => {
+          if (!inOthers.contains(x, y, z)) {
+            visit(x, y, z);
+          }
+        }),
+    );
+  }
+
+  /**
+   * `intersect` is the cubes in this shape and in every one of `others`.
+   */
+  public intersect(...others: Shape[]): Shape {
+    const all = [this, ...others];
+    const min = [0, 1, 2].map(i =>
+      Math.max(...all.map(s => s.bounds.min[i])),
+    ) as Bounds["min"];
+    const max = [0, 1, 2].map(i =>
+      Math.min(...all.map(s => s.bounds.max[i])),
+    ) as Bounds["max"];
+    const contains = (x: number, y: number, z: number) =>
+      all.every(s => s.contains(x, y, z));
+    return new Shape({ min, max }, contains, visit =>
+      this.forEach((x, y, z) => {
+        if (contains(x, y, z)) {
+          visit(x, y, z);
+        }
+      }),
+    );
+  }
+
+  /**
+   * `translate` moves the shape by `(dx, dy, dz)`.
+   */
+  public translate(dx: number, dy: number, dz: number): Shape {
+    const { min, max } = this.bounds;
+    return new Shape(
+      {
+        min: [min[0] + dx, min[1] + dy, min[2] + dz],
+        max: [max[0] + dx, max[1] + dy, max[2] + dz],
+      },
+      (x, y, z) => this.contains(x - dx, y - dy, z - dz),
+      visit => this.forEach((x, y, z) => visit(x + dx, y + dy, z + dz)),
+    );
+  }
+
+  /**
+   * `mirror` reflects the shape in the plane where coordinate `axis` is `at`.
+   */
+  public mirror(axis: "x" | "y" | "z", at = 0): Shape {
+    const i = ["x", "y", "z"].indexOf(axis);
+    const flip = (p: [number, number, number]) => {
+      const q: [number, number, number] = [p[0], p[1], p[2]];
+      q[i] = 2 * at - q[i];
+      return q;
+    };
+    const [a, b] = [flip(this.bounds.min), flip(this.bounds.max)];
+    return new Shape(
+      {
+        min: [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.min(a[2], b[2])],
+        max: [Math.max(a[0], b[0]), Math.max(a[1], b[1]), Math.max(a[2], b[2])],
+      },
+      (x, y, z) => this.contains(...flip([x, y, z])),
+      visit => this.forEach((x, y, z) => visit(...flip([x, y, z]))),
+    );
+  }
+}
+
+/**
+ * `union` is the cubes in any of `shapes`; with no shapes, it is empty.
+ */
+export function union(...shapes: Shape[]): Shape {
+  const min = [0, 1, 2].map(i =>
+    Math.min(...shapes.map(s => s.bounds.min[i])),
+  ) as Bounds["min"];
+  const max = [0, 1, 2].map(i =>
+    Math.max(...shapes.map(s => s.bounds.max[i])),
+  ) as Bounds["max"];
+  return new Shape(
+    { min, max },
+    (x, y, z) => {
+      for (const { bounds, contains } of shapes) {
+        if (
+          x >= bounds.min[0] &&
+          x <= bounds.max[0] &&
+          y >= bounds.min[1] &&
+          y <= bounds.max[1] &&
+          z >= bounds.min[2] &&
+          z <= bounds.max[2] &&
+          contains(x, y, z)
+        ) {
+          return true;
+        }
+      }
+      return false;
+    },
+    visit => shapes.forEach(s => s.forEach(visit)),
+  );
+}
+
+/**
+ * `box` is every cube from `(x0, y0, z0)` to `(x1, y1, z1)`, inclusive.
+ * The corners can be given in either order.
+ */
+export function box(
+  x0: number,
+  y0: number,
+  z0: number,
+  x1: number,
+  y1: number,
+  z1: number,
+): Shape {
+  const min: Bounds["min"] = [
+    Math.min(x0, x1),
+    Math.min(y0, y1),
+    Math.min(z0, z1),
+  ];
+  const max: Bounds["max"] = [
+    Math.max(x0, x1),
+    Math.max(y0, y1),
+    Math.max(z0, z1),
+  ];
+  return new Shape(
+    { min, max },
+    (x, y, z) =>
+      x >= min[0] &&
+      x <= max[0] &&
+      y >= min[1] &&
+      y <= max[1] &&
+      z >= min[2] &&
+      z <= max[2],
+  );
+}
+
+/**
+ * `sphere` is the cubes whose centers are within `radius` of the center of
+ * cube `(cx, cy, cz)`.
+ */
+export function sphere(
+  cx: number,
+  cy: number,
+  cz: number,
+  radius: number,
+): Shape {
+  const r = Math.floor(radius);
+  return new Shape(
+    { min: [cx - r, cy - r, cz - r], max: [cx + r, cy + r, cz + r] },
+    (x, y, z) =>
+      (x - cx) ** 2 + (y - cy) ** 2 + (z - cz) ** 2 <= radius * radius,
+  );
+}
+
+/**
+ * `cylinder` is an upright cylinder around the column `(cx, cz)`, from `y0`
+ * up to `y1`.
+ */
+export function cylinder(
+  cx: number,
+  cz: number,
+  y0: number,
+  y1: number,
+  radius: number,
+): Shape {
+  const r = Math.floor(radius);
+  return new Shape(
+    {
+      min: [cx - r, Math.min(y0, y1), cz - r],
+      max: [cx + r, Math.max(y0, y1), cz + r],
+    },
+    (x, y, z) =>
+      y >= Math.min(y0, y1) &&
+      y <= Math.max(y0, y1) &&
+      (x - cx) ** 2 + (z - cz) ** 2 <= radius * radius,
+  );
+}
+
+/**
+ * `cone` is an upright cone around the column `(cx, cz)`, standing on `y`
+ * with a base of `radius` and narrowing to a point `height` cubes up.
+ */
+export function cone(
+  cx: number,
+  cz: number,
+  y: number,
+  height: number,
+  radius: number,
+): Shape {
+  const r = Math.floor(radius);
+  return new Shape(
+    { min: [cx - r, y, cz - r], max: [cx + r, y + height - 1, cz + r] },
+    (x, cy, z) => {
+      const level = radius * (1 - (cy - y) / height);
+      return (
+        cy >= y &&
+        cy < y + height &&
+        (x - cx) ** 2 + (z - cz) ** 2 <= level * level
+      );
+    },
+  );
+}
+
+/**
+ * `heightfield` fills every column from `(x0, z0)` to `(x1, z1)` from
+ * `bottom` up to `height(x, z)`, rounded to the nearest cube.
+ * Columns lower than `bottom` are left empty.
+ */
+export function heightfield(
+  x0: number,
+  z0: number,
+  x1: number,
+  z1: number,
+  height: (x: number, z: number) => number,
+  bottom = 0,
+): Shape {
+  const [minX, maxX] = [Math.min(x0, x1), Math.max(x0, x1)];
+  const [minZ, maxZ] = [Math.min(z0, z1), Math.max(z0, z1)];
+  const heights = new Map<string, number>();
+  let top = bottom;
+  for (let x = minX; x <= maxX; x++) {
+    for (let z = minZ; z <= maxZ; z++) {
+      const h = Math.round(height(x, z));
+      heights.set(`${x};${z}`, h);
+      top = Math.max(top, h);
+    }
+  }
+  const columnTop = (x: number, z: number) => {
+    const h = heights.get(`${x};${z}`);
+    return h === undefined ? bottom - 1 : h;
+  };
+  return new Shape(
+    { min: [minX, bottom, minZ], max: [maxX, top, maxZ] },
+    (x, y, z) => y >= bottom && y <= columnTop(x, z),
+    visit => {
+      for (let x = minX; x <= maxX; x++) {
+        for (let z = minZ; z <= maxZ; z++) {
+          for (let y = bottom; y <= columnTop(x, z); y++) {
+            visit(x, y, z);
+          }
+        }
+      }
+    },
+  );
+}
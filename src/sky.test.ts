@@ -0,0 +1,80 @@
+import { surfaceColors } from "./color";
+import { Pt3, pt3, Viewport } from "./geometry";
+import { Random } from "./random";
+import { rasterizeDisplayList } from "./raster";
+import { renderScene, shadeScene } from "./shading";
+import { DEFAULT_SKY, Fog, fogAmount, skyImage } from "./sky";
+
+const fog: Fog = { color: [1, 1, 1], density: 1.5, falloff: 0.2 };
+
+test("fog thickens with distance and thins out with height", () => {
+  expect(fogAmount(fog, -100, 0)).toBe(0);
+  expect(fogAmount(fog, 0, 0)).toBeCloseTo(1 - Math.exp(-1.5));
+  expect(fogAmount(fog, 40, 0)).toBeGreaterThan(fogAmount(fog, 0, 0));
+  expect(fogAmount(fog, 40, 10)).toBeLessThan(fogAmount(fog, 40, 0));
+  expect(fogAmount(fog, 1e6, 0)).toBeCloseTo(1);
+  expect(fogAmount({ ...fog, density: 0 }, 40, 0)).toBe(0);
+});
+
+test("far faces fade into the fog more than near ones", () => {
+  const near = pt3(-30, 0, 30);
+  const far = pt3(30, 0, -30);
+  const cubes = new Set<Pt3>([near, far]);
+  const surface = surfaceColors.desert_stone;
+  const clear = shadeScene(cubes, surface, new Random(1));
+  const foggy = shadeScene(cubes, surface, new Random(1), { fog });
+  const whiteness = (mesh: typeof clear, cube: Pt3) => {
+    const face = [...mesh.left.values()].find(f => f.cube === cube)!;
+    return face.color.reduce((sum, c) => sum + c, 0);
+  };
+  const fogged = (cube: Pt3) => whiteness(foggy, cube) - whiteness(clear, cube);
+  expect(fogged(near)).toBeGreaterThanOrEqual(0);
+  expect(fogged(far)).toBeGreaterThan(fogged(near));
+});
+
+test("skies are flat, fade from top to bottom, or have clouds", () => {
+  const sky = {
+    ...DEFAULT_SKY,
+    top: [0, 0, 1] as const,
+    bottom: [1, 0, 0] as const,
+    clouds: [0, 1, 0] as const,
+  };
+  const flat = skyImage(sky, 30, 30);
+  expect(flat.get(0, 0)).toEqual([0, 0, 255, 255]);
+  expect(flat.get(29, 29)).toEqual([0, 0, 255, 255]);
+
+  const gradient = skyImage({ ...sky, kind: "gradient" }, 30, 30);
+  expect(gradient.get(5, 0)).toEqual([0, 0, 255, 255]);
+  expect(gradient.get(5, 29)[0]).toBeGreaterThan(240);
+
+  const cloudiness = (cover: number) => {
+    const image = skyImage({ ...sky, kind: "clouds", cover }, 30, 30);
+    let green = 0;
+    for (let i = 1; i < image.data.length; i += 4) {
+      green += image.data[i];
+    }
+    return green;
+  };
+  expect(cloudiness(0)).toBe(0);
+  expect(cloudiness(0.5)).toBeGreaterThan(0);
+  expect(cloudiness(0.8)).toBeGreaterThan(cloudiness(0.5));
+});
+
+test("scenes are painted in front of the sky", () => {
+  const list = renderScene(new Set([pt3(0, 0, 0)]), surfaceColors.blossoms, 1, {
+    viewport: new Viewport(10, 20, 20),
+  });
+  const background = skyImage(
+    { ...DEFAULT_SKY, kind: "flat", top: [0, 1, 0] },
+    40,
+    40,
+  );
+  const image = rasterizeDisplayList(list, {
+    width: 40,
+    height: 40,
+    scale: 1,
+    background,
+  });
+  expect(image.get(0, 0)).toEqual([0, 255, 0, 255]);
+  expect(image.get(20, 20)).not.toEqual([0, 255, 0, 255]);
+});
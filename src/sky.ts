@@ -0,0 +1,157 @@
+import { RGB } from "./color";
+import { GradientNoise } from "./noise";
+import { Random } from "./random";
+import { RGBAImage } from "./raster";
+
+/**
+ * A `Sky` is the backdrop drawn behind a scene, filling the whole picture:
+ * - `"flat"` skies are all `top`;
+ * - `"gradient"` skies fade from `top` down to `bottom`;
+ * - `"clouds"` skies are gradients with drifts of `clouds` over them, which
+ *   cover about `cover` (from 0 to 1) of the sky.
+ */
+export type Sky = {
+  kind: "flat" | "gradient" | "clouds";
+  top: RGB;
+  bottom: RGB;
+  clouds: RGB;
+  cover: number;
+};
+
+export const skyKinds: Sky["kind"][] = ["flat", "gradient", "clouds"];
+
+/**
+ * `DEFAULT_SKY` is the plain black backdrop of themes without a sky.
+ */
+export const DEFAULT_SKY: Sky = {
+  kind: "flat",
+  top: [0, 0, 0],
+  bottom: [0, 0, 0],
+  clouds: [1, 1, 1],
+  cover: 0.4,
+};
+
+/**
+ * `Fog` fades faces into `color` the further away they are, so distant parts
+ * of a scene look hazy.
+ * `density` is how much fog lies between the viewer and the middle of the
+ * scene: it hides `1 - e^-density` of a face at the origin. `falloff` thins
+ * the fog out with height, by a factor of `e^-falloff` for every cube up.
+ */
+export type Fog = { color: RGB; density: number; falloff: number };
+
+/**
+ * `FOG_START` is how far in front of the origin, in steps of `Pt3.depth()`,
+ * the fog starts; nothing nearer is fogged.
+ */
+const FOG_START = 60;
+
+/**
+ * `fogAmount` returns how much of a face of a cube at `depth` (its
+ * `Pt3.depth()` as seen by the camera) and height `y` is hidden by `fog`,
+ * from 0 to 1.
+ */
+export function fogAmount(fog: Fog, depth: number, y: number): number {
+  const distance = Math.max(0, depth + FOG_START) / FOG_START;
+  const thickness = fog.density * Math.exp(-fog.falloff * Math.max(0, y));
+  return 1 - Math.exp(-thickness * distance);
+}
+
+function mix(a: RGB, b: RGB, amount: number): RGB {
+  return [
+    a[0] + (b[0] - a[0]) * amount,
+    a[1] + (b[1] - a[1]) * amount,
+    a[2] + (b[2] - a[2]) * amount,
+  ];
+}
+
+/**
+ * `fogged` blends `color` into the fog's color by `fogAmount`.
+ */
+export function fogged(color: RGB, fog: Fog, depth: number, y: number): RGB {
+  return mix(color, fog.color, fogAmount(fog, depth, y));
+}
+
+/**
+ * Cloud noise is sampled every `CLOUD_STEP` pixels, and smoothly filled in
+ * between: it has no detail finer than that, and sampling it at every pixel
+ * of a large canvas is slow.
+ */
+const CLOUD_STEP = 4;
+
+/**
+ * `cloudNoise` returns a function giving the noise that clouds are made of,
+ * from -1 to 1, at each pixel of an image of the given size.
+ */
+function cloudNoise(
+  width: number,
+  height: number,
+): (x: number, y: number) => number {
+  const noise = new GradientNoise(new Random(1));
+  const columns = Math.ceil(width / CLOUD_STEP) + 2;
+  const rows = Math.ceil(height / CLOUD_STEP) + 2;
+  const samples = new Float64Array(columns * rows);
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      // Clouds are stretched out sideways.
+      samples[j * columns + i] = noise.fbm(
+        (4 * i * CLOUD_STEP) / width,
+        (10 * j * CLOUD_STEP) / height,
+        5,
+      );
+    }
+  }
+  return (x, y) => {
+    const [i, j] = [Math.floor(x / CLOUD_STEP), Math.floor(y / CLOUD_STEP)];
+    const [u, v] = [x / CLOUD_STEP - i, y / CLOUD_STEP - j];
+    const at = (di: number, dj: number) => samples[(j + dj) * columns + i + di];
+    return (
+      (at(0, 0) * (1 - u) + at(1, 0) * u) * (1 - v) +
+      (at(0, 1) * (1 - u) + at(1, 1) * u) * v
+    );
+  };
+}
+
+/**
+ * `skyImage` paints `sky` into an opaque image of the given size.
+ * Clouds are always the same for a given size, so a sky never changes as
+ * the scene in front of it is edited.
+ */
+export function skyImage(sky: Sky, width: number, height: number): RGBAImage {
+  const image = new RGBAImage(width, height);
+  const noise = sky.kind === "clouds" ? cloudNoise(width, height) : null;
+  for (let y = 0; y < height; y++) {
+    const row =
+      sky.kind === "flat" ? sky.top : mix(sky.top, sky.bottom, y / height);
+    for (let x = 0; x < width; x++) {
+      let color = row;
+      if (noise) {
+        // Clouds have soft edges, and grow as the noise rises above the
+        // level that leaves `cover` of the sky clouded.
+        const thickness = ((noise(x, y) + 1) / 2 - (1 - sky.cover)) / 0.2;
+        color = mix(row, sky.clouds, Math.min(Math.max(thickness, 0), 1));
+      }
+      const i = 4 * (y * width + x);
+      image.data[i] = Math.round(color[0] * 255);
+      image.data[i + 1] = Math.round(color[1] * 255);
+      image.data[i + 2] = Math.round(color[2] * 255);
+      image.data[i + 3] = 255;
+    }
+  }
+  return image;
+}
+
+/**
+ * `tintImage` returns a copy of `image` with every pixel's color multiplied
+ * by `tint` (see `tintAt`).
+ */
+export function tintImage(image: RGBAImage, tint: RGB): RGBAImage {
+  const tinted = new RGBAImage(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    tinted.data[i] = image.data[i] * tint[0];
+    tinted.data[i + 1] = image.data[i + 1] * tint[1];
+    tinted.data[i + 2] = image.data[i + 2] * tint[2];
+    tinted.data[i + 3] = image.data[i + 3];
+  }
+  return tinted;
+}
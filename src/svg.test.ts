@@ -0,0 +1,125 @@
+import { RGB } from "./color";
+import { DisplayItem } from "./displayList";
+import { pt } from "./geometry";
+import { displayListToSVG } from "./svg";
+
+const size = { width: 10, height: 10 };
+
+function face(depth: number, color: RGB, ...polygons: number[][][]) {
+  return {
+    kind: "face",
+    depth,
+    color,
+    polygons: polygons.map(polygon => polygon.map(([x, y]) => pt(x, y))),
+  } as DisplayItem;
+}
+
+/**
+ * `paths` reads back the `<path>`s of an SVG document, with each path's
+ * closed loops as lists of `[x, y]` points.
+ */
+function paths(svg: string) {
+  return [...svg.matchAll(/<path fill="([^"]*)" d="([^"]*)"\/>/g)].map(
+    ([, fill, d]) => ({
+      fill,
+      loops: d
+        .split("Z")
+        .filter(loop => loop.trim())
+        .map(loop =>
+          loop
+            .trim()
+            .split(/ ?[ML]/)
+            .filter(p => p)
+            .map(p => p.split(" ").map(Number)),
+        ),
+    }),
+  );
+}
+
+/**
+ * `area` is the signed area of a loop, whose sign says which way it winds.
+ */
+function area(loop: number[][]) {
+  let sum = 0;
+  loop.forEach(([x0, y0], i) => {
+    const [x1, y1] = loop[(i + 1) % loop.length];
+    sum += x0 * y1 - x1 * y0;
+  });
+  return sum / 2;
+}
+
+// Two triangles that make up the unit square, wound the same way.
+const lower = [
+  [0, 0],
+  [1, 0],
+  [0, 1],
+];
+const upper = [
+  [1, 0],
+  [1, 1],
+  [0, 1],
+];
+
+test("each item is a path of its own, in order, without merging", () => {
+  const list = [
+    face(0, [1, 0, 0], lower),
+    face(0, [1, 0, 0], upper),
+    { ...face(0, [0, 0, 1], lower), kind: "effect" as const },
+  ];
+  const found = paths(displayListToSVG(list, { ...size, merge: false }));
+  expect(found.map(path => path.fill)).toEqual([
+    "rgb(255, 0, 0)",
+    "rgb(255, 0, 0)",
+    "rgb(0, 0, 255)",
+  ]);
+  expect(found[0].loops).toEqual([lower]);
+  expect(found[1].loops).toEqual([upper]);
+});
+
+test("neighboring faces of one color and depth merge into one loop", () => {
+  const list = [face(0, [1, 0, 0], lower), face(0, [1, 0, 0], upper)];
+  const found = paths(displayListToSVG(list, { ...size, merge: true }));
+  expect(found.length).toBe(1);
+  expect(found[0].loops.length).toBe(1);
+  const [loop] = found[0].loops;
+  expect(loop.length).toBe(4);
+  expect(Math.abs(area(loop))).toBe(1);
+  expect(Math.sign(area(loop))).toBe(Math.sign(area(lower)));
+});
+
+test("faces of other colors or depths are never merged", () => {
+  const colors = [face(0, [1, 0, 0], lower), face(0, [0, 1, 0], upper)];
+  expect(
+    paths(displayListToSVG(colors, { ...size, merge: true })).map(
+      path => path.loops,
+    ),
+  ).toEqual([[lower], [upper]]);
+  const depths = [face(0, [1, 0, 0], lower), face(1, [1, 0, 0], upper)];
+  expect(
+    paths(displayListToSVG(depths, { ...size, merge: true })).map(
+      path => path.loops,
+    ),
+  ).toEqual([[lower], [upper]]);
+});
+
+test("a ring of faces becomes an outline with a hole in it", () => {
+  const square = (x: number, y: number) => [
+    [x, y],
+    [x + 1, y],
+    [x + 1, y + 1],
+    [x, y + 1],
+  ];
+  const ring = [];
+  for (let x = 0; x < 3; x++) {
+    for (let y = 0; y < 3; y++) {
+      if (x !== 1 || y !== 1) {
+        ring.push(face(0, [1, 1, 1], square(x, y)));
+      }
+    }
+  }
+  const found = paths(displayListToSVG(ring, { ...size, merge: true }));
+  expect(found.length).toBe(1);
+  const areas = found[0].loops.map(area).sort((a, b) => a - b);
+  // The outline is wound like the squares, and the hole the other way.
+  expect(areas).toEqual([-1, 9]);
+});
@@ -0,0 +1,110 @@
+import { rgb } from "./color";
+import { DisplayList } from "./displayList";
+import { P } from "./geometry";
+
+/**
+ * `svgPath` formats closed polygons as the `d` attribute of an SVG `<path>`.
+ */
+function svgPath(polygons: P[][]): string {
+  const num = (x: number) => String(Math.round(x * 1000) / 1000);
+  return polygons
+    .map(
+      polygon =>
+        polygon
+          .map((p, i) => `${i === 0 ? "M" : "L"}${num(p.x)} ${num(p.y)}`)
+          .join(" ") + " Z",
+    )
+    .join(" ");
+}
+
+/**
+ * `mergePolygons` combines polygons into as few as possible by cancelling out
+ * the edges they share and chaining the remaining edges into closed loops.
+ * The polygons must not overlap, and must all be wound the same way (as mesh
+ * triangles are) so that holes come out with the opposite winding.
+ */
+function mergePolygons(polygons: P[][]): P[][] {
+  const key = (p: P) => `${p.x};${p.y}`;
+  const points = new Map<string, P>();
+  const edges = new Map<string, string[]>();
+  const addEdge = (from: string, to: string) => {
+    const opposite = edges.get(to);
+    if (opposite && opposite.includes(from)) {
+      opposite.splice(opposite.indexOf(from), 1);
+      return;
+    }
+    edges.set(from, [...(edges.get(from) || []), to]);
+  };
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      points.set(key(polygon[i]), polygon[i]);
+      addEdge(key(polygon[i]), key(polygon[(i + 1) % polygon.length]));
+    }
+  }
+
+  const loops: P[][] = [];
+  for (const [start, outgoing] of edges) {
+    while (outgoing.length > 0) {
+      const loop = [points.get(start)!];
+      let at = outgoing.pop()!;
+      while (at !== start) {
+        loop.push(points.get(at)!);
+        at = edges.get(at)!.pop()!;
+      }
+      loops.push(loop);
+    }
+  }
+  return loops;
+}
+
+/**
+ * `displayListToSVG` produces an SVG document with one `<path>` per item in
+ * the list, in the same order.
+ *
+ * With `merge`, neighboring faces at the same depth with the same color are
+ * combined into a single `<path>`. Faces never overlap each other, so this
+ * doesn't change the picture.
+ */
+export function displayListToSVG(
+  list: DisplayList,
+  options: { width: number; height: number; merge: boolean },
+): string {
+  const paths: string[] = [];
+  const fill = (color: string, polygons: P[][]) => {
+    paths.push(`<path fill="${color}" d="${svgPath(polygons)}"/>`);
+  };
+
+  let layer: { depth: number; faces: Map<string, P[][]> } | null = null;
+  const flushLayer = () => {
+    if (layer) {
+      for (const [color, faces] of layer.faces) {
+        fill(color, mergePolygons(faces));
+      }
+    }
+    layer = null;
+  };
+
+  for (const item of list) {
+    if (item.kind === "face" && options.merge) {
+      if (!layer || layer.depth !== item.depth) {
+        flushLayer();
+        layer = { depth: item.depth, faces: new Map() };
+      }
+      const color = rgb(...item.color);
+      layer.faces.set(color, [
+        ...(layer.faces.get(color) || []),
+        ...item.polygons,
+      ]);
+      continue;
+    }
+    flushLayer();
+    fill(rgb(...item.color), item.polygons);
+  }
+  flushLayer();
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${options.width}" height="${options.height}" viewBox="0 0 ${options.width} ${options.height}">`,
+    ...paths,
+    `</svg>`,
+  ].join("\n");
+}
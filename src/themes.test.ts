@@ -0,0 +1,189 @@
+import { builtinThemes, surfaceColors, Theme, themeSurface } from "./color";
+import {
+  addTheme,
+  findTheme,
+  loadThemes,
+  parseThemeFile,
+  saveThemes,
+  serializeTheme,
+  THEME_STORAGE_KEY,
+  themeName,
+} from "./themes";
+
+const sunset: Theme = {
+  top: {
+    space: "hsl",
+    stops: [
+      { at: 0, color: [1, 0, 0] },
+      { at: 0.5, color: [1, 1, 0] },
+    ],
+  },
+  right: { space: "linear", stops: [{ at: 0.3, color: [0, 0, 1] }] },
+  left: builtinThemes.desert_stone.left,
+};
+
+/**
+ * `memoryStorage` is a `Storage` that keeps its items in a map, standing in
+ * for the browser's local storage.
+ */
+function memoryStorage(items: Record<string, string> = {}): Storage {
+  const map = new Map(Object.entries(items));
+  return {
+    get length() {
+      return map.size;
+    },
+    clear: () => map.clear(),
+    getItem: key => (map.has(key) ? map.get(key)! : null),
+    key: i => [...map.keys()][i] || null,
+    removeItem: key => map.delete(key),
+    setItem: (key, value) => map.set(key, value),
+  };
+}
+
+test("the built-in themes give the built-in surface colors", () => {
+  for (const name of ["desert_stone", "blossoms"] as const) {
+    const surface = themeSurface(builtinThemes[name]);
+    for (const side of ["top", "right", "left"] as const) {
+      for (const v of [-0.5, 0, 0.2, 0.45, 0.7, 1.3]) {
+        expect(surface[side](v)).toEqual(surfaceColors[name][side](v));
+      }
+    }
+  }
+});
+
+test("themes survive exporting and importing", () => {
+  const { name, theme } = parseThemeFile(serializeTheme("sunset", sunset));
+  expect(name).toBe("sunset");
+  expect(theme.top).toEqual(sunset.top);
+  expect(theme.right).toEqual(sunset.right);
+  // Colors are saved to the nearest byte.
+  theme.left.stops.forEach((stop, i) => {
+    expect(stop.at).toBe(sunset.left.stops[i].at);
+    stop.color.forEach((c, j) =>
+      expect(c).toBeCloseTo(sunset.left.stops[i].color[j], 2),
+    );
+  });
+});
+
+test("skies and fog are exported along with a theme", () => {
+  const { theme } = parseThemeFile(
+    serializeTheme("haze", {
+      ...sunset,
+      sky: {
+        kind: "clouds",
+        top: [0, 0, 1],
+        bottom: [1, 1, 1],
+        clouds: [1, 0, 1],
+        cover: 0.25,
+      },
+      fog: { color: [1, 1, 0], density: 2.5, falloff: 0.1 },
+    }),
+  );
+  expect(theme.sky).toEqual({
+    kind: "clouds",
+    top: [0, 0, 1],
+    bottom: [1, 1, 1],
+    clouds: [1, 0, 1],
+    cover: 0.25,
+  });
+  expect(theme.fog).toEqual({ color: [1, 1, 0], density: 2.5, falloff: 0.1 });
+
+  // Themes saved before skies and fog existed have neither.
+  const old = JSON.parse(serializeTheme("sunset", sunset));
+  old.version = 1;
+  expect(parseThemeFile(JSON.stringify(old)).theme).toEqual(
+    parseThemeFile(serializeTheme("sunset", sunset)).theme,
+  );
+  expect(parseThemeFile(JSON.stringify(old)).theme.sky).toBeUndefined();
+});
+
+test("malformed theme files are rejected with a clear reason", () => {
+  const valid = JSON.parse(
+    serializeTheme("sunset", {
+      ...sunset,
+      sky: builtinThemes.blossoms.sky,
+      fog: { color: [1, 1, 1], density: 1, falloff: 0 },
+    }),
+  );
+  const broken = (change: (file: any) => void) => {
+    const file = JSON.parse(JSON.stringify(valid));
+    change(file);
+    return () => parseThemeFile(JSON.stringify(file));
+  };
+
+  expect(broken(f => (f.format = "barrens-scene"))).toThrow(
+    /invalid theme file: file is not a theme file/,
+  );
+  expect(broken(f => (f.name = " "))).toThrow(/name should not be empty/);
+  expect(broken(f => (f.top.space = "cmyk"))).toThrow(
+    /file.top.space should be one of srgb, linear, oklab, hsl/,
+  );
+  expect(broken(f => (f.right.stops = []))).toThrow(
+    /file.right.stops should have at least one stop/,
+  );
+  expect(broken(f => (f.left.stops[1].at = "end"))).toThrow(
+    /file.left.stops\[1\].at should be a number/,
+  );
+  expect(broken(f => (f.top.stops[0].color = "red"))).toThrow(
+    /file.top.stops\[0\].color should be a color/,
+  );
+  expect(broken(f => (f.sky.kind = "stars"))).toThrow(
+    /file.sky.kind should be one of flat, gradient, clouds/,
+  );
+  expect(broken(f => (f.sky.cover = 2))).toThrow(
+    /file.sky.cover should be between 0 and 1/,
+  );
+  expect(broken(f => (f.fog.density = -1))).toThrow(
+    /file.fog.density should not be negative/,
+  );
+});
+
+test("new themes are never given a name that is already taken", () => {
+  expect(themeName("sunset", {})).toBe("sunset");
+  expect(themeName("blossoms", {})).toBe("blossoms_2");
+  expect(themeName("sunset", { sunset, sunset_2: sunset })).toBe("sunset_3");
+  // Names that every object has are free, except `__proto__`, which can't
+  // be set like other names.
+  expect(themeName("constructor", {})).toBe("constructor");
+  expect(themeName("toString", {})).toBe("toString");
+  expect(themeName("__proto__", {})).toBe("__proto___2");
+  expect(findTheme({}, "constructor")).toBeUndefined();
+  expect(findTheme({ sunset }, "sunset")).toBe(sunset);
+  expect(findTheme({ sunset }, "blossoms")).toBe(builtinThemes.blossoms);
+
+  // Adding a theme that is already there keeps its name.
+  expect(addTheme({ sunset }, "sunset", sunset).name).toBe("sunset");
+  const added = addTheme({ sunset }, "sunset", builtinThemes.blossoms);
+  expect(added.name).toBe("sunset_2");
+  expect(added.themes).toEqual({
+    sunset,
+    sunset_2: builtinThemes.blossoms,
+  });
+});
+
+test("custom themes are kept in local storage", () => {
+  const storage = memoryStorage();
+  expect(loadThemes(storage)).toEqual({});
+  saveThemes(storage, { sunset });
+  const loaded = loadThemes(storage);
+  expect(Object.keys(loaded)).toEqual(["sunset"]);
+  expect(loaded.sunset.top).toEqual(sunset.top);
+
+  // Damaged themes are skipped, without losing the others.
+  const saved = JSON.parse(storage.getItem(THEME_STORAGE_KEY)!);
+  saved.broken = { top: {} };
+  storage.setItem(THEME_STORAGE_KEY, JSON.stringify(saved));
+  expect(Object.keys(loadThemes(storage))).toEqual(["sunset"]);
+  expect(loadThemes(memoryStorage({ [THEME_STORAGE_KEY]: "{" }))).toEqual({});
+
+  // Themes named like the properties of every object are kept as themes.
+  const named = memoryStorage({
+    [THEME_STORAGE_KEY]: `{"__proto__": ${JSON.stringify(
+      saved.sunset,
+    )}, "constructor": ${JSON.stringify(saved.sunset)}}`,
+  });
+  const odd = loadThemes(named);
+  expect(Object.getPrototypeOf(odd)).toBe(Object.prototype);
+  expect(Object.keys(odd)).toEqual(["__proto___2", "constructor"]);
+  expect(findTheme(odd, "constructor")!.top).toEqual(sunset.top);
+});
@@ -0,0 +1,277 @@
+import {
+  builtinThemes,
+  ColorSpace,
+  colorSpaces,
+  isBuiltinTheme,
+  Theme,
+  ThemeGradient,
+  toHex,
+} from "./color";
+import { JsonReader } from "./jsonReader";
+import { Fog, Sky, skyKinds } from "./sky";
+
+/**
+ * `THEME_FILE_VERSION` is written into every exported theme. It must be
+ * bumped whenever the format changes, and `parseThemeFile` taught to read
+ * the older versions.
+ * Version 2 added the optional `sky` and `fog`.
+ */
+export const THEME_FILE_VERSION = 2;
+
+/**
+ * `THEME_STORAGE_KEY` is where custom themes are kept in local storage.
+ */
+export const THEME_STORAGE_KEY = "barrens-themes";
+
+/**
+ * `CustomThemes` are the themes made in the palette editor, by name.
+ * Their names never clash with the `builtinThemes`.
+ */
+export type CustomThemes = Record<string, Theme>;
+
+/**
+ * `isCustomTheme` says whether `name` is one of `themes`, and not just a name
+ * every object has, like `constructor`.
+ */
+export function isCustomTheme(themes: CustomThemes, name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(themes, name);
+}
+
+/**
+ * `findTheme` returns the custom or built-in theme called `name`, if there
+ * is one.
+ */
+export function findTheme(
+  themes: CustomThemes,
+  name: string,
+): Theme | undefined {
+  if (isCustomTheme(themes, name)) {
+    return themes[name];
+  }
+  return isBuiltinTheme(name) ? builtinThemes[name] : undefined;
+}
+
+const SIDES = ["top", "right", "left"] as const;
+
+/**
+ * `themeToJSON` writes a theme as plain JSON values, with colors as
+ * `"#rrggbb"`.
+ */
+export function themeToJSON(theme: Theme): object {
+  const side = ({ space, stops }: ThemeGradient) => ({
+    space,
+    stops: stops.map(({ at, color }) => ({ at, color: toHex(color) })),
+  });
+  const { sky, fog } = theme;
+  return {
+    top: side(theme.top),
+    right: side(theme.right),
+    left: side(theme.left),
+    sky: sky && {
+      kind: sky.kind,
+      top: toHex(sky.top),
+      bottom: toHex(sky.bottom),
+      clouds: toHex(sky.clouds),
+      cover: sky.cover,
+    },
+    fog: fog && {
+      color: toHex(fog.color),
+      density: fog.density,
+      falloff: fog.falloff,
+    },
+  };
+}
+
+function readSky(reader: JsonReader, value: unknown, path: string): Sky {
+  const kind = reader.field(value, path, "kind");
+  if (!skyKinds.includes(kind as Sky["kind"])) {
+    return reader.invalid(
+      `${path}.kind`,
+      `should be one of ${skyKinds.join(", ")}`,
+    );
+  }
+  const color = (key: string) =>
+    reader.color(reader.field(value, path, key), `${path}.${key}`);
+  const cover = reader.number(
+    reader.field(value, path, "cover"),
+    `${path}.cover`,
+  );
+  if (cover < 0 || cover > 1) {
+    return reader.invalid(`${path}.cover`, "should be between 0 and 1");
+  }
+  return {
+    kind: kind as Sky["kind"],
+    top: color("top"),
+    bottom: color("bottom"),
+    clouds: color("clouds"),
+    cover,
+  };
+}
+
+function readFog(reader: JsonReader, value: unknown, path: string): Fog {
+  const amount = (key: string) => {
+    const n = reader.number(reader.field(value, path, key), `${path}.${key}`);
+    return n < 0
+      ? reader.invalid(`${path}.${key}`, "should not be negative")
+      : n;
+  };
+  return {
+    color: reader.color(reader.field(value, path, "color"), `${path}.color`),
+    density: amount("density"),
+    falloff: amount("falloff"),
+  };
+}
+
+/**
+ * `readTheme` reads a theme written by `themeToJSON`, found at `path` in a
+ * file being read by `reader`.
+ */
+export function readTheme(
+  reader: JsonReader,
+  value: unknown,
+  path: string,
+): Theme {
+  const side = (name: typeof SIDES[number]): ThemeGradient => {
+    const at = `${path}.${name}`;
+    const gradient = reader.field(value, path, name);
+    const space = reader.field(gradient, at, "space");
+    if (!colorSpaces.includes(space as ColorSpace)) {
+      return reader.invalid(
+        `${at}.space`,
+        `should be one of ${colorSpaces.join(", ")}`,
+      );
+    }
+    const stops = reader
+      .array(reader.field(gradient, at, "stops"), `${at}.stops`)
+      .map((stop, i) => ({
+        at: reader.number(
+          reader.field(stop, `${at}.stops[${i}]`, "at"),
+          `${at}.stops[${i}].at`,
+        ),
+        color: reader.color(
+          reader.field(stop, `${at}.stops[${i}]`, "color"),
+          `${at}.stops[${i}].color`,
+        ),
+      }));
+    if (stops.length === 0) {
+      return reader.invalid(`${at}.stops`, "should have at least one stop");
+    }
+    return { space: space as ColorSpace, stops };
+  };
+  const theme: Theme = {
+    top: side("top"),
+    right: side("right"),
+    left: side("left"),
+  };
+  const sky = reader.optional(value, path, "sky");
+  if (sky !== undefined) {
+    theme.sky = readSky(reader, sky, `${path}.sky`);
+  }
+  const fog = reader.optional(value, path, "fog");
+  if (fog !== undefined) {
+    theme.fog = readFog(reader, fog, `${path}.fog`);
+  }
+  return theme;
+}
+
+/**
+ * `serializeTheme` writes a theme as JSON text, so it can be shared.
+ */
+export function serializeTheme(name: string, theme: Theme): string {
+  return JSON.stringify({
+    format: "barrens-theme",
+    version: THEME_FILE_VERSION,
+    name,
+    ...themeToJSON(theme),
+  });
+}
+
+/**
+ * `parseThemeFile` reads a theme written by `serializeTheme`.
+ * It throws an `Error` that explains what is wrong, and where, if `text`
+ * isn't a valid theme file.
+ */
+export function parseThemeFile(text: string): { name: string; theme: Theme } {
+  const reader = new JsonReader("theme file");
+  const { json } = reader.header(text, "barrens-theme", THEME_FILE_VERSION);
+  const name = reader.string(reader.field(json, "file", "name"), "name");
+  if (!name.trim()) {
+    return reader.invalid("name", "should not be empty");
+  }
+  return { name, theme: readTheme(reader, json, "file") };
+}
+
+/**
+ * `themeName` returns `name`, or `name` with a number added if it is already
+ * taken by a built-in theme or one of `themes`.
+ * `__proto__` always counts as taken: setting it on an object changes the
+ * object's prototype instead of adding a theme.
+ */
+export function themeName(name: string, themes: CustomThemes): string {
+  const taken = (n: string) =>
+    n === "__proto__" || isBuiltinTheme(n) || isCustomTheme(themes, n);
+  if (!taken(name)) {
+    return name;
+  }
+  let i = 2;
+  while (taken(`${name}_${i}`)) {
+    i++;
+  }
+  return `${name}_${i}`;
+}
+
+/**
+ * `addTheme` adds `theme` to `themes` as `name`, unless that name is taken
+ * by a different theme, in which case it is given a fresh name.
+ * It returns the new themes, and the name the theme ended up with.
+ */
+export function addTheme(
+  themes: CustomThemes,
+  name: string,
+  theme: Theme,
+): { themes: CustomThemes; name: string } {
+  const same = (other: Theme) =>
+    JSON.stringify(themeToJSON(other)) === JSON.stringify(themeToJSON(theme));
+  if (!(isCustomTheme(themes, name) && same(themes[name]))) {
+    name = themeName(name, themes);
+  }
+  return { themes: { ...themes, [name]: theme }, name };
+}
+
+/**
+ * `loadThemes` reads the custom themes kept in `storage`, skipping any that
+ * can't be read.
+ * Those are dropped the next time the themes are saved.
+ */
+export function loadThemes(storage: Storage): CustomThemes {
+  const themes: CustomThemes = {};
+  let saved: unknown;
+  try {
+    saved = JSON.parse(storage.getItem(THEME_STORAGE_KEY) || "{}");
+  } catch (e) {
+    return themes;
+  }
+  if (typeof saved !== "object" || saved === null) {
+    return themes;
+  }
+  const reader = new JsonReader("saved theme");
+  for (const [name, value] of Object.entries(saved)) {
+    try {
+      themes[themeName(name, themes)] = readTheme(reader, value, name);
+    } catch (e) {
+      // Skip themes that are damaged, or were saved by a newer version.
+    }
+  }
+  return themes;
+}
+
+/**
+ * `saveThemes` keeps `themes` in `storage`, replacing those saved before.
+ */
+export function saveThemes(storage: Storage, themes: CustomThemes): void {
+  const json: Record<string, object> = {};
+  for (const [name, theme] of Object.entries(themes)) {
+    json[name] = themeToJSON(theme);
+  }
+  storage.setItem(THEME_STORAGE_KEY, JSON.stringify(json));
+}
@@ -0,0 +1,152 @@
+import { RGB, toByte } from "./color";
+import { Pt3, pt3 } from "./geometry";
+import { Random } from "./random";
+import { scenes } from "./scenes";
+import { encodeVox, parseVox } from "./vox";
+
+/**
+ * `voxFile` builds a `.vox` file by hand, with the given chunks inside MAIN.
+ */
+function voxFile(...chunks: [string, number[]][]): Uint8Array {
+  const bytes: number[] = [];
+  const id = (s: string) =>
+    bytes.push(...s.split("").map(c => c.charCodeAt(0)));
+  const int = (v: number) =>
+    bytes.push(v & 255, (v >> 8) & 255, (v >> 16) & 255, (v >>> 24) & 255);
+  const children = chunks.reduce(
+    (n, [, content]) => n + 12 + content.length,
+    0,
+  );
+  id("VOX ");
+  int(150);
+  id("MAIN");
+  int(0);
+  int(children);
+  for (const [name, content] of chunks) {
+    id(name);
+    int(content.length);
+    int(0);
+    bytes.push(...content);
+  }
+  return new Uint8Array(bytes);
+}
+
+function ints(...values: number[]): number[] {
+  return [...new Uint8Array(new Int32Array(values).buffer)];
+}
+
+test("parseVox reads voxels with their palette colors", () => {
+  const palette = new Array(256 * 4).fill(0);
+  palette.splice(0, 8, 255, 0, 0, 255, 0, 0, 255, 255);
+  const model = parseVox(
+    voxFile(
+      ["PACK", ints(1)],
+      ["SIZE", ints(4, 2, 3)],
+      ["XYZI", [...ints(2), 0, 0, 0, 1, 3, 1, 2, 2]],
+      ["RGBA", palette],
+      ["MATL", ints(1, 0)],
+    ),
+  );
+  // z is up, and the model is centered horizontally.
+  expect([...model.cubes]).toEqual([pt3(-2, 0, 1), pt3(1, 2, 0)]);
+  expect(model.colors.get(pt3(-2, 0, 1))).toEqual([1, 0, 0]);
+  expect(model.colors.get(pt3(1, 2, 0))).toEqual([0, 0, 1]);
+});
+
+test("parseVox falls back to MagicaVoxel's default palette", () => {
+  const model = parseVox(
+    voxFile(
+      ["SIZE", ints(1, 1, 3)],
+      ["XYZI", [...ints(3), 0, 0, 0, 1, 0, 0, 1, 215, 0, 0, 2, 255]],
+    ),
+  );
+  expect(model.colors.get(pt3(0, 0, 0))).toEqual([1, 1, 1]);
+  expect(model.colors.get(pt3(0, 1, 0))).toEqual([0, 0, 0x33 / 255]);
+  expect(model.colors.get(pt3(0, 2, 0))).toEqual([
+    0x11 / 255,
+    0x11 / 255,
+    0x11 / 255,
+  ]);
+});
+
+/**
+ * `minCorner` returns the smallest coordinates along each axis.
+ */
+function minCorner(cubes: Iterable<Pt3>): [number, number, number] {
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  for (const c of cubes) {
+    min[0] = Math.min(min[0], c.cx);
+    min[1] = Math.min(min[1], c.cy);
+    min[2] = Math.min(min[2], c.cz);
+  }
+  return min;
+}
+
+test("scenes round-trip through .vox files", () => {
+  const { cubes } = scenes.island(new Random(4));
+  const colors = new Map<Pt3, RGB>();
+  for (const cube of cubes) {
+    colors.set(cube, [(cube.cx & 3) / 3, (cube.cy & 15) / 15, 0.2]);
+  }
+  const model = parseVox(encodeVox(cubes, cube => colors.get(cube)!));
+
+  // The model comes back moved so that it is centered, but otherwise intact.
+  const [x0, y0, z0] = minCorner(cubes);
+  const [x1, y1, z1] = minCorner(model.cubes);
+  expect(model.cubes.size).toBe(cubes.size);
+  for (const cube of cubes) {
+    const moved = cube.shift(x1 - x0, y1 - y0, z1 - z0);
+    expect(model.cubes.has(moved)).toBe(true);
+    expect(model.colors.get(moved)!.map(toByte)).toEqual(
+      colors.get(cube)!.map(toByte),
+    );
+  }
+});
+
+test("encodeVox merges similar colors when there are too many", () => {
+  const cubes = new Set<Pt3>();
+  for (let x = 0; x < 40; x++) {
+    for (let z = 0; z < 40; z++) {
+      cubes.add(pt3(x, 0, z));
+    }
+  }
+  const colorOf = (c: Pt3): RGB => [c.cx / 40, c.cz / 40, 0.5];
+  const model = parseVox(encodeVox(cubes, colorOf));
+  const distinct = new Set(
+    [...model.colors.values()].map(color => color.join(";")),
+  );
+  expect(distinct.size).toBeLessThanOrEqual(255);
+  const [x1, , z1] = minCorner(model.cubes);
+  for (const cube of cubes) {
+    const color = model.colors.get(cube.shift(x1, 0, z1))!;
+    colorOf(cube).forEach((c, i) => {
+      expect(Math.abs(color[i] - c)).toBeLessThan(0.07);
+    });
+  }
+});
+
+test("malformed .vox files are rejected with a clear reason", () => {
+  expect(() => parseVox(new Uint8Array([1, 2, 3]))).toThrow(
+    /invalid .vox file: it doesn't start with "VOX "/,
+  );
+  expect(() => parseVox(voxFile(["XYZI", ints(0)]))).toThrow(
+    /XYZI chunk comes before any SIZE chunk/,
+  );
+  expect(() =>
+    parseVox(voxFile(["SIZE", ints(1, 1, 1)], ["XYZI", ints(5)])),
+  ).toThrow(/XYZI chunk has the wrong size/);
+  expect(() => parseVox(voxFile(["SIZE", ints(1, 1, 1)]).slice(0, 30))).toThrow(
+    /SIZE chunk is cut off/,
+  );
+  // Negative sizes would send the reader back to a chunk it has already
+  // read, and round in circles forever.
+  const looping = voxFile(["nTRN", []]);
+  new DataView(looping.buffer).setInt32(28, -12, true);
+  expect(() => parseVox(looping)).toThrow(/nTRN chunk has a negative size/);
+  const backwards = voxFile(["SIZE", ints(1, 1, 1)]);
+  new DataView(backwards.buffer).setInt32(16, -32, true);
+  expect(() => parseVox(backwards)).toThrow(/MAIN chunk has a negative size/);
+  expect(() =>
+    encodeVox(new Set([pt3(0, 0, 0), pt3(300, 0, 0)]), () => [0, 0, 0]),
+  ).toThrow(/at most 256 cubes across/);
+});
@@ -0,0 +1,257 @@
+import { RGB, toByte } from "./color";
+import { Pt3, pt3 } from "./geometry";
+
+/**
+ * A `VoxModel` is a set of cubes, each with its own color.
+ */
+export type VoxModel = {
+  cubes: Set<Pt3>;
+  colors: Map<Pt3, RGB>;
+};
+
+/**
+ * `MAX_VOX_SIZE` is the largest model MagicaVoxel can open, in cubes along
+ * each axis.
+ */
+const MAX_VOX_SIZE = 256;
+
+/**
+ * `defaultPalette` builds the palette MagicaVoxel uses for files without an
+ * `RGBA` chunk, as `[r, g, b]` bytes indexed by color index.
+ * Index 0 is unused; it is followed by a 6×6×6 color cube (without black),
+ * then 10-step ramps of red, green, blue and grey.
+ */
+function defaultPalette(): [number, number, number][] {
+  const palette: [number, number, number][] = [[0, 0, 0]];
+  const steps = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+  for (const r of steps) {
+    for (const g of steps) {
+      for (const b of steps) {
+        if (r || g || b) {
+          palette.push([r, g, b]);
+        }
+      }
+    }
+  }
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+  for (const channel of [0, 1, 2]) {
+    for (const v of ramp) {
+      const color: [number, number, number] = [0, 0, 0];
+      color[channel] = v;
+      palette.push(color);
+    }
+  }
+  for (const v of ramp) {
+    palette.push([v, v, v]);
+  }
+  return palette;
+}
+
+/**
+ * `invalidVox` reports a problem with a `.vox` file.
+ */
+function invalidVox(problem: string): never {
+  throw new Error(`invalid .vox file: ${problem}`);
+}
+
+/**
+ * `parseVox` reads the models in a MagicaVoxel `.vox` file.
+ *
+ * MagicaVoxel's z axis points up, so it becomes our y axis. Each model is
+ * centered horizontally around the origin, standing on y = 0. Files with
+ * several models have them all placed at the origin; the scene graph that
+ * positions them in MagicaVoxel is ignored.
+ */
+export function parseVox(bytes: Uint8Array): VoxModel {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const id = (at: number) =>
+    String.fromCharCode(...Array.from(bytes.subarray(at, at + 4)));
+  const int = (at: number) => {
+    if (at + 4 > bytes.length) {
+      return invalidVox("the file ends too early");
+    }
+    return view.getInt32(at, true);
+  };
+
+  if (bytes.length < 8 || id(0) !== "VOX ") {
+    return invalidVox('it doesn\'t start with "VOX "');
+  }
+  if (id(8) !== "MAIN") {
+    return invalidVox("the MAIN chunk is missing");
+  }
+
+  // Chunks are `id`, content size, children size, then the content; the
+  // children of MAIN are read in order, skipping any we don't understand.
+  const models: { size: number[]; voxels: number[][] }[] = [];
+  let palette = defaultPalette();
+  // Sizes are never negative, so every chunk read moves `at` forward.
+  if (int(12) < 0 || int(16) < 0) {
+    return invalidVox("the MAIN chunk has a negative size");
+  }
+  let at = 20 + int(12);
+  const end = Math.min(bytes.length, at + int(16));
+  while (at < end) {
+    const chunk = id(at);
+    const contentSize = int(at + 4);
+    const content = at + 12;
+    if (contentSize < 0 || content + contentSize > bytes.length) {
+      return invalidVox(`the ${chunk} chunk is cut off`);
+    }
+    const childrenSize = int(at + 8);
+    if (childrenSize < 0) {
+      return invalidVox(`the ${chunk} chunk has a negative size`);
+    }
+    if (chunk === "SIZE") {
+      models.push({
+        size: [int(content), int(content + 4), int(content + 8)],
+        voxels: [],
+      });
+    } else if (chunk === "XYZI") {
+      const model = models[models.length - 1];
+      if (!model) {
+        return invalidVox("an XYZI chunk comes before any SIZE chunk");
+      }
+      const count = int(content);
+      if (count < 0 || 4 + count * 4 > contentSize) {
+        return invalidVox("the XYZI chunk has the wrong size");
+      }
+      for (let i = 0; i < count; i++) {
+        const v = content + 4 + i * 4;
+        model.voxels.push([bytes[v], bytes[v + 1], bytes[v + 2], bytes[v + 3]]);
+      }
+    } else if (chunk === "RGBA") {
+      if (contentSize < 256 * 4) {
+        return invalidVox("the RGBA chunk has the wrong size");
+      }
+      palette = [[0, 0, 0]];
+      for (let i = 0; i < 255; i++) {
+        const c = content + i * 4;
+        palette.push([bytes[c], bytes[c + 1], bytes[c + 2]]);
+      }
+    }
+    at = content + contentSize + childrenSize;
+  }
+
+  const cubes = new Set<Pt3>();
+  const colors = new Map<Pt3, RGB>();
+  for (const { size, voxels } of models) {
+    for (const [x, y, z, index] of voxels) {
+      const cube = pt3(
+        x - Math.floor(size[0] / 2),
+        z,
+        Math.floor(size[1] / 2) - y,
+      );
+      const [r, g, b] = palette[index];
+      cubes.add(cube);
+      colors.set(cube, [r / 255, g / 255, b / 255]);
+    }
+  }
+  return { cubes, colors };
+}
+
+/**
+ * `buildPalette` picks at most 255 colors for the cubes' colors, dropping
+ * precision from every channel until few enough different colors remain.
+ * It returns the palette and each cube's index into it (counting from 1).
+ */
+function buildPalette(
+  cubes: Pt3[],
+  colorOf: (cube: Pt3) => RGB,
+): { palette: number[][]; indices: number[] } {
+  const bytes = cubes.map(cube => colorOf(cube).map(toByte));
+  for (let bits = 0; ; bits++) {
+    const quantize = (v: number) =>
+      Math.min(255, ((v >> bits) << bits) + ((1 << bits) >> 1));
+    const palette: number[][] = [];
+    const lookup = new Map<string, number>();
+    const indices = bytes.map(color => {
+      const q = color.map(quantize);
+      const k = q.join(";");
+      if (!lookup.has(k)) {
+        palette.push(q);
+        lookup.set(k, palette.length);
+      }
+      return lookup.get(k)!;
+    });
+    if (palette.length <= 255) {
+      return { palette, indices };
+    }
+  }
+}
+
+/**
+ * `encodeVox` writes cubes as a MagicaVoxel `.vox` file with one model,
+ * undoing the change of axes made by `parseVox`.
+ * `colorOf` gives the color of each cube; if there are more than 255
+ * different colors, similar ones are merged.
+ */
+export function encodeVox(
+  cubes: Set<Pt3>,
+  colorOf: (cube: Pt3) => RGB,
+): Uint8Array {
+  const list = [...cubes];
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (const cube of list) {
+    const c = [cube.cx, cube.cy, cube.cz];
+    for (let i = 0; i < 3; i++) {
+      min[i] = Math.min(min[i], c[i]);
+      max[i] = Math.max(max[i], c[i]);
+    }
+  }
+  const size = list.length
+    ? [max[0] - min[0] + 1, max[2] - min[2] + 1, max[1] - min[1] + 1]
+    : [1, 1, 1];
+  if (size.some(s => s > MAX_VOX_SIZE)) {
+    throw new Error(
+      `this scene is ${size.join(
+        "×",
+      )} cubes, but .vox models can be at most ${MAX_VOX_SIZE} cubes across`,
+    );
+  }
+  const { palette, indices } = buildPalette(list, colorOf);
+
+  // Every chunk has a 12 byte header before its content.
+  const sizeContent = 3 * 4;
+  const xyziContent = 4 + 4 * list.length;
+  const rgbaContent = 256 * 4;
+  const children = 3 * 12 + sizeContent + xyziContent + rgbaContent;
+  const bytes = new Uint8Array(8 + 12 + children);
+  const view = new DataView(bytes.buffer);
+  let at = 0;
+  const writeId = (id: string) => {
+    for (let i = 0; i < 4; i++) {
+      bytes[at++] = id.charCodeAt(i);
+    }
+  };
+  const writeInt = (v: number) => {
+    view.setInt32(at, v, true);
+    at += 4;
+  };
+  const writeChunk = (id: string, contentSize: number, childrenSize = 0) => {
+    writeId(id);
+    writeInt(contentSize);
+    writeInt(childrenSize);
+  };
+
+  writeId("VOX ");
+  writeInt(150);
+  writeChunk("MAIN", 0, children);
+  writeChunk("SIZE", sizeContent);
+  size.forEach(writeInt);
+  writeChunk("XYZI", xyziContent);
+  writeInt(list.length);
+  list.forEach((cube, i) => {
+    bytes[at++] = cube.cx - min[0];
+    bytes[at++] = max[2] - cube.cz;
+    bytes[at++] = cube.cy - min[1];
+    bytes[at++] = indices[i];
+  });
+  writeChunk("RGBA", rgbaContent);
+  for (let i = 0; i < 256; i++) {
+    const [r, g, b] = palette[i] || [0, 0, 0];
+    bytes.set([r, g, b, 255], at);
+    at += 4;
+  }
+  return bytes;
+}
@@ -0,0 +1,10 @@
+/**
+ * `worker-loader!` imports bundle a module into a script of its own, and
+ * give back a class that starts it as a Web Worker.
+ */
+declare module "worker-loader!*" {
+  class WebpackWorker extends Worker {
+    constructor();
+  }
+  export default WebpackWorker;
+}
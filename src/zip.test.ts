@@ -0,0 +1,33 @@
+import { encodeZip } from "./zip";
+
+test("encodeZip lists every file, stored as is", () => {
+  const files = [
+    { name: "frame-001.png", data: new Uint8Array([1, 2, 3]) },
+    { name: "frame-002.png", data: new Uint8Array([4, 5]) },
+  ];
+  const zip = Buffer.from(encodeZip(files));
+
+  // The archive ends with a record pointing at the central directory.
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  expect(zip.readUInt16LE(end + 10)).toBe(2);
+  let at = zip.readUInt32LE(end + 16);
+  for (const file of files) {
+    expect(zip.readUInt32LE(at)).toBe(0x02014b50);
+    const nameLength = zip.readUInt16LE(at + 28);
+    expect(zip.toString("ascii", at + 46, at + 46 + nameLength)).toBe(
+      file.name,
+    );
+    expect(zip.readUInt32LE(at + 24)).toBe(file.data.length);
+
+    const local = zip.readUInt32LE(at + 42);
+    expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+    const dataAt = local + 30 + zip.readUInt16LE(local + 26);
+    expect([...zip.slice(dataAt, dataAt + file.data.length)]).toEqual([
+      ...file.data,
+    ]);
+    at += 46 + nameLength;
+  }
+  // The CRC of [1, 2, 3].
+  expect(zip.readUInt32LE(14)).toBe(0x55bc801d);
+});
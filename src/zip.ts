@@ -0,0 +1,79 @@
+import { crc32 } from "./png";
+
+function uint16(value: number): number[] {
+  return [value & 0xff, (value >>> 8) & 0xff];
+}
+
+function uint32(value: number): number[] {
+  return [...uint16(value & 0xffff), ...uint16(value >>> 16)];
+}
+
+/**
+ * `encodeZip` bundles files into a ZIP archive, so that many files can be
+ * downloaded at once. The files are stored without compression, since the
+ * ones exported here (such as PNGs) are compressed already.
+ */
+export function encodeZip(
+  files: { name: string; data: Uint8Array }[],
+): Uint8Array {
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  for (const { name, data } of files) {
+    const nameBytes = Array.from(name, c => c.charCodeAt(0));
+    // Fields shared by the local header and the central directory: version
+    // needed, flags, method (stored), time, date, CRC and sizes.
+    const common = [
+      ...uint16(10),
+      ...uint16(0),
+      ...uint16(0),
+      ...uint16(0),
+      ...uint16(0x21), // 1980-01-01
+      ...uint32(crc32(data)),
+      ...uint32(data.length),
+      ...uint32(data.length),
+      ...uint16(nameBytes.length),
+      ...uint16(0), // no extra field
+    ];
+    const local = new Uint8Array([
+      ...uint32(0x04034b50),
+      ...common,
+      ...nameBytes,
+    ]);
+    directory.push(
+      new Uint8Array([
+        ...uint32(0x02014b50),
+        ...uint16(10), // version made by
+        ...common,
+        ...uint16(0), // no comment
+        ...uint16(0), // disk number
+        ...uint16(0), // internal attributes
+        ...uint32(0), // external attributes
+        ...uint32(offset),
+        ...nameBytes,
+      ]),
+    );
+    parts.push(local, data);
+    offset += local.length + data.length;
+  }
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0);
+  const end = new Uint8Array([
+    ...uint32(0x06054b50),
+    ...uint16(0), // this disk
+    ...uint16(0), // disk with the directory
+    ...uint16(files.length),
+    ...uint16(files.length),
+    ...uint32(directorySize),
+    ...uint32(offset),
+    ...uint16(0), // no comment
+  ]);
+
+  const all = [...parts, ...directory, end];
+  const zip = new Uint8Array(all.reduce((sum, p) => sum + p.length, 0));
+  let at = 0;
+  for (const part of all) {
+    zip.set(part, at);
+    at += part.length;
+  }
+  return zip;
+}